@@ -0,0 +1,175 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Command } from "commander";
+import {
+  RESOLUTION_PRESETS,
+  TONE_DURATION,
+  composeSession,
+  encodeMidiFile,
+  renderSession,
+} from "../core";
+import { ToneGenerator } from "../node/audio";
+import {
+  AUDIO_FORMATS,
+  AudioFormat,
+  SAMPLE_RATE,
+  writeAudio,
+} from "../node/sound";
+import {
+  fail,
+  parseChoice,
+  parseInteger,
+  parseNumber,
+  parseSeedArgument,
+} from "./options";
+import {
+  SoundOptions,
+  addSoundOptions,
+  parseSoundOptions,
+} from "./sound-options";
+
+/** The options of `audio render`, as given. */
+interface AudioRenderOptions extends SoundOptions {
+  count: string;
+  output: string;
+  duration: string;
+  crossfade: string;
+  mono?: boolean;
+  sampleRate: string;
+}
+
+// Sound files, plus the session's notes as a Standard MIDI File
+const OUTPUT_FORMATS = [...AUDIO_FORMATS, "mid"] as const;
+
+// Compositions are sonified at the CLI's default 4K size
+const { width: WIDTH, height: HEIGHT } = RESOLUTION_PRESETS["4k"];
+
+const playCommand = () =>
+  addSoundOptions(
+    new Command("play")
+      .description("Play the compositions' sound live, one every 5 seconds.")
+      .argument(
+        "[seed]",
+        "Seed to start from (number or text). Default: random."
+      )
+  ).action((seedArg: string | undefined, options: SoundOptions) => {
+    const toneGenerator = new ToneGenerator(
+      parseSeedArgument(seedArg),
+      parseSoundOptions(options)
+    );
+    toneGenerator.start();
+
+    process.on("SIGINT", () => {
+      toneGenerator.stop();
+      process.exit();
+    });
+  });
+
+const renderCommand = () =>
+  addSoundOptions(
+    new Command("render")
+      .description(
+        "Render a session (a sequence of compositions) to a WAV or Ogg file, or its notes to a MIDI file, without an audio device. The same options always give the same file."
+      )
+      .argument(
+        "[seed]",
+        "Seed to start from (number or text). Default: random."
+      )
+  )
+    .option("-n, --count <number>", "Number of compositions.", "12")
+    .option(
+      "-o, --output <file>",
+      "Output file: .wav, .ogg (encoded with ffmpeg) or .mid (Standard MIDI File).",
+      "./output/session.wav"
+    )
+    .option(
+      "-d, --duration <seconds>",
+      "Length of each composition's sound.",
+      String(TONE_DURATION)
+    )
+    .option(
+      "--crossfade <seconds>",
+      "Overlap between compositions; 0 cuts.",
+      "0.5"
+    )
+    .option("--mono", "Write one channel instead of two.")
+    .option("--sample-rate <hz>", "Samples per second.", String(SAMPLE_RATE))
+    .action(
+      async (seedArg: string | undefined, options: AudioRenderOptions) => {
+        const sound = parseSoundOptions(options);
+        const count = parseInteger(options.count, "--count");
+        const duration = parseNumber(options.duration, "--duration", {
+          above: 0,
+        });
+        const crossfade = parseNumber(options.crossfade, "--crossfade", {
+          min: 0,
+          max: duration,
+        });
+        const sampleRate = parseInteger(options.sampleRate, "--sample-rate", {
+          min: 8000,
+          max: 192000,
+        });
+        const format = parseChoice(
+          path.extname(options.output).slice(1).toLowerCase(),
+          "The --output extension",
+          OUTPUT_FORMATS
+        );
+
+        const seed = parseSeedArgument(seedArg);
+        const session = composeSession(seed, {
+          count,
+          width: WIDTH,
+          height: HEIGHT,
+          sonification: sound.sonification,
+          harmony: sound.harmony,
+          duration,
+        });
+        const segments = session.map((entry) => entry.notes);
+
+        const outputDir = path.dirname(options.output);
+        if (!fs.existsSync(outputDir)) {
+          fs.mkdirSync(outputDir, { recursive: true });
+        }
+        try {
+          if (format === "mid") {
+            await fs.promises.writeFile(
+              options.output,
+              encodeMidiFile(segments, { duration, name: `Mondrian ${seed}` })
+            );
+          } else {
+            const audio = renderSession(segments, {
+              sampleRate,
+              duration,
+              crossfade,
+              voice: sound.voice,
+              effects: sound.effects,
+            });
+            await writeAudio(options.output, audio, format as AudioFormat, {
+              sampleRate,
+              channels: options.mono ? 1 : 2,
+            });
+          }
+        } catch (error) {
+          fail((error as Error).message);
+        }
+
+        console.log(
+          `✅ Rendered ${count} composition(s) from seed ${seed} (${
+            count * duration
+          }s) to ${options.output}`
+        );
+      }
+    );
+
+/**
+ * `mondrian audio`: plays the sound of a sequence of compositions, or
+ * renders it to a file.
+ */
+export function audioCommand(): Command {
+  return new Command("audio")
+    .description(
+      "Play or render the sound of a sequence of Mondrian compositions."
+    )
+    .addCommand(playCommand(), { isDefault: true })
+    .addCommand(renderCommand());
+}
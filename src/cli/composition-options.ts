@@ -0,0 +1,248 @@
+import { Command } from "commander";
+import {
+  CompositionSettings,
+  DEFAULT_PARAM_RANGES,
+  DrawnParam,
+  LAYOUT_NAMES,
+  PALETTES,
+  PARAM_LIMITS,
+  ParamRange,
+  RULE_NAMES,
+  SONIFICATION_NAMES,
+  isColor,
+  parseRuleNames,
+} from "../core";
+import { loadPalette } from "../node/palette";
+import { fail, parseChoice, parseFraction, parseInteger } from "./options";
+
+// --- Composition Options (shared by the commands that generate images) ---
+
+/** The parameters given as a value, a range or a list of values to sweep. */
+export const SWEEP_PARAMS: readonly DrawnParam[] = [
+  "depth",
+  "colorChance",
+  "lineWeight",
+];
+
+/** The options added by `addCompositionOptions`, as given. */
+export interface CompositionOptions {
+  depth?: string;
+  colorChance?: string;
+  lineWeight?: string;
+  palette: string;
+  lineColor?: string;
+  lineVariance?: string;
+  lineFalloff?: string;
+  doubleLines?: string;
+  partialLines?: string;
+  layout: string;
+  sonification: string;
+  rules?: string;
+}
+
+export interface SweepSettings extends CompositionSettings {
+  /** Values to sweep, overriding the ranges; see `expandSweep`. */
+  sweep: Partial<Record<DrawnParam, number[]>>;
+}
+
+/**
+ * Adds the options that shape the compositions.
+ */
+export function addCompositionOptions(command: Command): Command {
+  return command
+    .option(
+      "-d, --depth <number>",
+      `Max split depth (complexity), ${PARAM_LIMITS.depth.min}-${PARAM_LIMITS.depth.max}. Default: 4..6.`
+    )
+    .option(
+      "-c, --color-chance <number>",
+      "Probability (0.0 to 1.0) a block is colored. Default: 0.2..0.4."
+    )
+    .option(
+      "-l, --line-weight <number>",
+      `The thickness of the lines (in pixels at 4K, scaled with the canvas; at least ${PARAM_LIMITS.lineWeight.min}). Default: 25..60.`
+    )
+    .addHelpText(
+      "after",
+      "\n--depth, --color-chance and --line-weight take a value (5), a range to draw from per image (3..7) or, for batch, a comma-separated list of values (3,5,7) to sweep."
+    )
+    .option(
+      "-p, --palette <name|file>",
+      `Palette preset (${Object.keys(PALETTES).join(
+        ", "
+      )}) or palette .json file.`,
+      "classic"
+    )
+    .option(
+      "--line-color <color>",
+      "Color of the grid lines. Default: the palette's."
+    )
+    .option(
+      "--line-variance <0-1>",
+      "Random variation of each line's weight (0 = uniform). Default: 0."
+    )
+    .option(
+      "--line-falloff <0-1>",
+      "Weight lost per split level, so later splits are thinner. Default: 0."
+    )
+    .option(
+      "--double-lines <0-1>",
+      "Probability a line is drawn as a double line. Default: 0."
+    )
+    .option(
+      "--partial-lines <0-1>",
+      "Probability a line stops short of the canvas edge. Default: 0."
+    )
+    .option(
+      "--layout <name>",
+      `Layout strategy (${LAYOUT_NAMES.join(", ")}).`,
+      "bisection"
+    )
+    .option(
+      "--sonification <name>",
+      `Mapping from the composition to the notes in its JSON document (${SONIFICATION_NAMES.join(
+        ", "
+      )}).`,
+      "timbre"
+    )
+    .option(
+      "-r, --rules <list>",
+      `Comma-separated composition rules to enforce (${RULE_NAMES.join(
+        ", "
+      )}), or "all". Default: none.`
+    );
+}
+
+/**
+ * Parses a parameter given as a value (`5`), a range (`3..7`) or a list of
+ * values to sweep (`3,5,7`), each value checked by `parse`.
+ */
+function parseParam(
+  value: unknown,
+  flag: string,
+  allowSweep: boolean,
+  parse: (value: string) => number
+): ParamRange | number[] {
+  const text = String(value).trim();
+  if (text.includes(",")) {
+    if (!allowSweep) {
+      fail(`${flag} takes a list of values only in batch, got "${text}".`);
+    }
+    return [...new Set(text.split(",").map((item) => parse(item.trim())))];
+  }
+
+  const bounds = text.split("..");
+  if (bounds.length > 2) {
+    fail(`${flag} must be a value or a range like 3..7, got "${text}".`);
+  }
+  const [min, max = min] = bounds.map((bound) => parse(bound.trim()));
+  if (min > max) {
+    fail(`${flag} range must go from low to high, got "${text}".`);
+  }
+  return { min, max };
+}
+
+/**
+ * Validates the options added by `addCompositionOptions` and loads the
+ * palette; exits on invalid input. Lists of values to sweep are only
+ * accepted with `allowSweep`.
+ */
+export async function parseCompositionOptions(
+  options: CompositionOptions,
+  allowSweep = false
+): Promise<SweepSettings> {
+  const optional = <T>(value: unknown, parse: (value: unknown) => T) =>
+    value === undefined ? undefined : parse(value);
+
+  const parsers: Record<DrawnParam, [string, (value: string) => number]> = {
+    depth: [
+      "--depth",
+      (value) => parseInteger(value, "--depth", PARAM_LIMITS.depth),
+    ],
+    colorChance: [
+      "--color-chance",
+      (value) => parseFraction(value, "--color-chance"),
+    ],
+    lineWeight: [
+      "--line-weight",
+      (value) => parseInteger(value, "--line-weight", PARAM_LIMITS.lineWeight),
+    ],
+  };
+  const ranges = { ...DEFAULT_PARAM_RANGES };
+  const sweep: SweepSettings["sweep"] = {};
+  for (const param of SWEEP_PARAMS) {
+    if (options[param] === undefined) continue;
+    const [flag, parse] = parsers[param];
+    const values = parseParam(options[param], flag, allowSweep, parse);
+    if (Array.isArray(values)) {
+      sweep[param] = values;
+    } else {
+      ranges[param] = values;
+    }
+  }
+
+  const settings = {
+    ...ranges,
+    sweep,
+    lineColor: optional(options.lineColor, (value) => {
+      const color = String(value).trim();
+      if (!isColor(color)) {
+        fail(
+          `--line-color must be a CSS color: hex (#1B1B1B), rgb(27, 27, 27) or a color name, got "${value}".`
+        );
+      }
+      return color;
+    }),
+    lineStyle: {
+      variance: optional(options.lineVariance, (value) =>
+        parseFraction(value, "--line-variance")
+      ),
+      falloff: optional(options.lineFalloff, (value) =>
+        parseFraction(value, "--line-falloff")
+      ),
+      doubleLineChance: optional(options.doubleLines, (value) =>
+        parseFraction(value, "--double-lines")
+      ),
+      partialLineChance: optional(options.partialLines, (value) =>
+        parseFraction(value, "--partial-lines")
+      ),
+    },
+    layout: parseChoice(options.layout, "--layout", LAYOUT_NAMES),
+    sonification: parseChoice(
+      options.sonification,
+      "--sonification",
+      SONIFICATION_NAMES
+    ),
+  };
+
+  try {
+    return {
+      ...settings,
+      palette: await loadPalette(options.palette),
+      rules: options.rules ? parseRuleNames(options.rules) : [],
+    };
+  } catch (error) {
+    fail((error as Error).message);
+  }
+}
+
+/**
+ * Expands the values to sweep into the Cartesian product of settings, one
+ * per combination with each swept parameter fixed (the last parameter
+ * varying fastest); settings without a sweep expand to themselves.
+ */
+export function expandSweep(settings: SweepSettings): CompositionSettings[] {
+  return SWEEP_PARAMS.reduce<CompositionSettings[]>(
+    (grid, param) => {
+      const values = settings.sweep[param];
+      if (!values) return grid;
+      return grid.flatMap((point) =>
+        values.map((value) => ({
+          ...point,
+          [param]: { min: value, max: value },
+        }))
+      );
+    },
+    [settings]
+  );
+}
@@ -0,0 +1,245 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Command, Option } from "commander";
+import { parse as parseYaml } from "yaml";
+
+// --- Configuration (config files and environment variables) ---
+
+/** Looked for in the working directory, in this order. */
+export const CONFIG_FILES = [
+  "mondrian.config.json",
+  "mondrian.config.yaml",
+  "mondrian.config.yml",
+];
+
+// Every option can also be set as MONDRIAN_<OPTION>, e.g. MONDRIAN_LINE_WEIGHT
+const ENV_PREFIX = "MONDRIAN_";
+
+/**
+ * Option values by name (`lineWeight` or `line-weight`). Sections named
+ * after a command (e.g. `audio`) hold values for that command only and win
+ * over the top-level ones. Options whose value means different things to
+ * different commands (`output`: a directory, or `audio render`'s file) can
+ * only be set in a section.
+ */
+export type Config = { [key: string]: unknown };
+
+export interface LoadedConfig {
+  path: string;
+  config: Config;
+}
+
+const isSection = (value: unknown): value is Config =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const camelCase = (key: string) =>
+  key.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+
+/** Every command below `command`, at any depth. */
+const subcommands = (command: Command): Command[] =>
+  command.commands.flatMap((sub) => [sub, ...subcommands(sub)]);
+
+// What an option's value is, from its flags (e.g. "<dir>"); null for flags
+const valueName = (option: Option): string | null =>
+  /[<[][^>\]]*[>\]]/.exec(option.flags)?.[0] ?? null;
+
+// Flags take a boolean, or "true"/"false" as text
+const isFlag = (option: Option) => !option.required && !option.optional;
+
+/**
+ * Options of `program` that take a different kind of value in different
+ * commands, by the value names in their flags.
+ */
+function sectionOnlyOptions(program: Command): Map<string, string[]> {
+  const kinds = new Map<string, Set<string | null>>();
+  for (const command of [program, ...subcommands(program)]) {
+    for (const option of command.options) {
+      const key = option.attributeName();
+      kinds.set(key, (kinds.get(key) ?? new Set()).add(valueName(option)));
+    }
+  }
+  const sectionOnly = new Map<string, string[]>();
+  for (const [key, names] of kinds) {
+    if (names.size > 1) sectionOnly.set(key, [...names].map(String));
+  }
+  return sectionOnly;
+}
+
+/**
+ * Parses the value of a flag from a config file or the environment.
+ * @throws Error naming `source` unless it is a boolean, "true" or "false".
+ */
+function parseFlag(value: unknown, source: string): boolean {
+  if (typeof value === "boolean") return value;
+  const text = String(value).trim().toLowerCase();
+  if (text !== "true" && text !== "false") {
+    throw new Error(`${source} must be true or false, got "${value}".`);
+  }
+  return text === "true";
+}
+
+/**
+ * Reads `file`, or else the first of `CONFIG_FILES` in the working
+ * directory; JSON or YAML by extension.
+ * @returns null without a config file.
+ * @throws Error if the file is missing, malformed or not an object.
+ */
+export function loadConfig(file?: string): LoadedConfig | null {
+  const configPath =
+    file ?? CONFIG_FILES.find((name) => fs.existsSync(name)) ?? null;
+  if (configPath === null) {
+    return null;
+  }
+  if (!fs.existsSync(configPath)) {
+    throw new Error(`Config file ${configPath} not found.`);
+  }
+
+  const text = fs.readFileSync(configPath, "utf8");
+  let config: unknown;
+  try {
+    config = /\.ya?ml$/i.test(configPath) ? parseYaml(text) : JSON.parse(text);
+  } catch (error) {
+    throw new Error(
+      `Invalid config file ${configPath}: ${(error as Error).message}`
+    );
+  }
+  if (!isSection(config)) {
+    throw new Error(`Invalid config file ${configPath}: expected an object.`);
+  }
+  return { path: path.resolve(configPath), config };
+}
+
+/**
+ * Checks every key of a config names an option or a command of `program`,
+ * so typos don't go unnoticed.
+ * @throws Error naming the unknown keys.
+ */
+export function validateConfig(
+  program: Command,
+  { path, config }: LoadedConfig
+) {
+  const commands = [program, ...subcommands(program)];
+  const options = new Set(
+    commands.flatMap((command) =>
+      command.options.map((option) => option.attributeName())
+    )
+  );
+  const names = new Set(commands.map((command) => command.name()));
+
+  const unknown: string[] = [];
+  const check = (section: Config, prefix: string) => {
+    for (const [key, value] of Object.entries(section)) {
+      if (isSection(value) && names.has(key)) {
+        check(value, `${prefix}${key}.`);
+      } else if (!options.has(camelCase(key))) {
+        unknown.push(`${prefix}${key}`);
+      }
+    }
+  };
+  check(config, "");
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown option(s) in config file ${path}: ${unknown.join(", ")}.`
+    );
+  }
+
+  const sectionOnly = sectionOnlyOptions(program);
+  for (const [key, value] of Object.entries(config)) {
+    const kinds = sectionOnly.get(camelCase(key));
+    if (kinds && !isSection(value)) {
+      throw new Error(
+        `"${key}" in config file ${path} takes different values in different commands (${kinds.join(
+          ", "
+        )}): set it in a command's section instead, e.g. image.${key}.`
+      );
+    }
+  }
+}
+
+/**
+ * Fills in the options of `command` not given on the command line or in
+ * the environment from the config: the top-level values (but for options
+ * only set in sections), then those of the sections of its parent commands
+ * and its own.
+ * @throws Error if a flag's value is not true or false.
+ */
+export function applyConfig(command: Command, config: Config): void {
+  const chain: Command[] = [];
+  for (
+    let current: Command | null = command;
+    current;
+    current = current.parent
+  ) {
+    chain.unshift(current);
+  }
+
+  const sectionOnly = sectionOnlyOptions(chain[0]);
+  const values: Config = {};
+  let section: unknown = config;
+  for (const current of chain) {
+    if (current !== chain[0]) {
+      section = isSection(section) ? section[current.name()] : undefined;
+    }
+    if (!isSection(section)) break;
+    for (const [key, value] of Object.entries(section)) {
+      const name = camelCase(key);
+      if (isSection(value) || (section === config && sectionOnly.has(name))) {
+        continue;
+      }
+      values[name] = value;
+    }
+  }
+
+  for (const option of command.options) {
+    const key = option.attributeName();
+    const source = command.getOptionValueSource(key);
+    if (!(key in values) || (source !== undefined && source !== "default")) {
+      continue;
+    }
+    // Values parse like their command-line text; lists join with commas
+    const value = values[key];
+    command.setOptionValueWithSource(
+      key,
+      isFlag(option)
+        ? parseFlag(value, `"${key}" in the config file`)
+        : Array.isArray(value)
+        ? value.join(",")
+        : String(value),
+      "config"
+    );
+  }
+}
+
+/** Name of the environment variable for an option, e.g. MONDRIAN_LINE_WEIGHT. */
+export function environmentVariable(option: Option): string {
+  return `${ENV_PREFIX}${option
+    .attributeName()
+    .replace(/([A-Z])/g, "_$1")
+    .toUpperCase()}`;
+}
+
+/**
+ * Fills in the options of `command` not given on the command line from
+ * MONDRIAN_<OPTION> environment variables. Flags take "true" or "false".
+ * @throws Error if a flag's value is neither.
+ */
+export function applyEnvironment(
+  command: Command,
+  env: NodeJS.ProcessEnv = process.env
+): void {
+  for (const option of command.options) {
+    // --version prints the version rather than setting anything
+    if (option.long === "--version") continue;
+    const key = option.attributeName();
+    const value = env[environmentVariable(option)];
+    const source = command.getOptionValueSource(key);
+    if (value === undefined || (source !== undefined && source !== "default")) {
+      continue;
+    }
+    command.setOptionValueWithSource(
+      key,
+      isFlag(option) ? parseFlag(value, environmentVariable(option)) : value,
+      "env"
+    );
+  }
+}
@@ -0,0 +1,340 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Command } from "commander";
+import { RESOLUTION_PRESETS, compositionParams, nextSeed } from "../core";
+import { BatchJob, BatchResult, runBatch, runJob } from "../node/batch";
+import { OUTPUT_FORMATS, outputFiles } from "../node/image";
+import { createProgressBar, formatDuration } from "../node/progress";
+import { writeContactSheet } from "../node/contact-sheet";
+import {
+  CompositionOptions,
+  SWEEP_PARAMS,
+  SweepSettings,
+  addCompositionOptions,
+  expandSweep,
+  parseCompositionOptions,
+} from "./composition-options";
+import {
+  EXISTING_POLICIES,
+  ExistingPolicy,
+  formatName,
+  formatTimestamp,
+  nameDescription,
+  parseNameTemplate,
+} from "./output-names";
+import {
+  OutputSizeOptions,
+  ensureOutputDirectory,
+  fail,
+  parseChoice,
+  parseInteger,
+  parseOutputSize,
+  parseSeedArgument,
+  sizeDescription,
+} from "./options";
+
+/**
+ * One line describing a finished image and the parameters it was made with.
+ */
+function describeResult(result: BatchResult): string {
+  const { job } = result;
+  if (!result.ok) {
+    return `❌ Failed to generate image ${job.index}: ${result.error}`;
+  }
+  const { params } = job;
+  return `✅ Generated ${result.written.join(", ")} (Seed: ${
+    params.seed
+  }, Depth: ${params.maxDepth}, ColorChance: ${params.colorChance.toFixed(
+    2
+  )}, LineWeight: ${params.lineWeight}px, Palette: ${
+    params.palette?.name
+  }, Layout: ${params.layout ?? "bisection"})`;
+}
+
+/** The options added by `addImageOptions`, as given. */
+interface ImageOptions extends CompositionOptions, OutputSizeOptions {
+  output: string;
+  name: string;
+  ifExists: string;
+  format: string;
+}
+
+/** The options of `batch`, as given. */
+interface BatchOptions extends ImageOptions {
+  amount: string;
+  concurrency: string;
+  contactSheet: boolean;
+}
+
+/**
+ * Adds the options shared by `image` and `batch`: output, naming, size,
+ * format and everything that shapes the compositions.
+ */
+function addImageOptions(command: Command, defaultName: string): Command {
+  return addCompositionOptions(
+    command
+      .argument(
+        "[seed]",
+        "Seed of the (first) image, number or text. Default: random."
+      )
+      .option(
+        "-o, --output <dir>",
+        "The output directory for the images.",
+        "./output"
+      )
+      .option("--name <template>", nameDescription, defaultName)
+      .option(
+        "--if-exists <policy>",
+        `What to do when an image's files already exist (${EXISTING_POLICIES.join(
+          ", "
+        )}).`,
+        "overwrite"
+      )
+      .option("--size <size>", sizeDescription, "4k")
+      .option(
+        "-W, --width <pixels>",
+        "Output width. Default: the size's, or scaled from --height."
+      )
+      .option(
+        "-H, --height <pixels>",
+        "Output height. Default: the size's, or scaled from --width."
+      )
+      .option(
+        "--dpi <number>",
+        "Print density: sizes paper formats and is recorded in PNG/SVG files."
+      )
+      .option(
+        "-f, --format <format>",
+        `Output format: ${OUTPUT_FORMATS.join(", ")}.`,
+        "png"
+      )
+  );
+}
+
+/**
+ * Validates the options added by `addImageOptions` and lays out one job per
+ * image: `amount` seeds in sequence from `seedArg`, each rendered with
+ * every combination of the values swept (only with `allowSweep`), named
+ * from the --name template with `{date}` as `date`; exits on invalid input
+ * or if two images would get the same name.
+ */
+async function imageJobs(
+  seedArg: string | undefined,
+  options: ImageOptions,
+  amount: number,
+  date: Date,
+  allowSweep = false
+): Promise<{ jobs: BatchJob[]; settings: SweepSettings }> {
+  const format = parseChoice(options.format, "--format", OUTPUT_FORMATS);
+  const template = parseNameTemplate(options.name);
+  const { width, height, dpi } = parseOutputSize(
+    options,
+    RESOLUTION_PRESETS["4k"]
+  );
+  const settings = await parseCompositionOptions(options, allowSweep);
+  const grid = expandSweep(settings);
+  ensureOutputDirectory(options.output);
+
+  // Parameters are drawn up front in seed order, so the same seed yields
+  // the same images whatever the concurrency.
+  const jobs: BatchJob[] = [];
+  const total = amount * grid.length;
+  let seed = parseSeedArgument(seedArg);
+  for (let i = 0; i < amount; i++) {
+    for (const point of grid) {
+      const index = jobs.length + 1;
+      const params = compositionParams(seed, width, height, point);
+      jobs.push({
+        index,
+        outputBase: path.join(
+          options.output,
+          formatName(template, params, { index, total, date })
+        ),
+        params,
+        options: { format, dpi, sonification: settings.sonification },
+      });
+    }
+    seed = nextSeed(seed);
+  }
+
+  const names = new Set<string>();
+  for (const { outputBase } of jobs) {
+    if (names.has(outputBase)) {
+      fail(
+        `--name "${template}" names more than one image ${outputBase}; add {index} to tell them apart.`
+      );
+    }
+    names.add(outputBase);
+  }
+  for (const dir of new Set(jobs.map((job) => path.dirname(job.outputBase)))) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  return { jobs, settings };
+}
+
+/**
+ * Splits off the jobs whose files all exist when the policy is to skip
+ * them; those count as done, with their existing files.
+ */
+function skipExisting(
+  jobs: BatchJob[],
+  policy: ExistingPolicy
+): { pending: BatchJob[]; skipped: BatchResult[] } {
+  const pending: BatchJob[] = [];
+  const skipped: BatchResult[] = [];
+  for (const job of jobs) {
+    const files = outputFiles(job.outputBase, job.options.format ?? "png");
+    if (policy === "skip" && files.every((file) => fs.existsSync(file))) {
+      skipped.push({ job, ok: true, written: files });
+    } else {
+      pending.push(job);
+    }
+  }
+  return { pending, skipped };
+}
+
+/** Describes the values swept, e.g. `--depth 3, 5, 7`, one per parameter. */
+function describeSweep(settings: SweepSettings): string[] {
+  return SWEEP_PARAMS.flatMap((param) => {
+    const values = settings.sweep[param];
+    const flag = param.replace(
+      /[A-Z]/g,
+      (letter) => `-${letter.toLowerCase()}`
+    );
+    return values ? [`--${flag} ${values.join(", ")}`] : [];
+  });
+}
+
+/**
+ * `mondrian image`: generates a single image.
+ */
+export function imageCommand(): Command {
+  return addImageOptions(
+    new Command("image").description(
+      "Generate a Piet Mondrian-style image, plus its JSON composition document."
+    ),
+    "mondrian_{seed}"
+  ).action(async (seedArg: string | undefined, options: ImageOptions) => {
+    const policy = parseChoice(
+      options.ifExists,
+      "--if-exists",
+      EXISTING_POLICIES
+    );
+    const { jobs } = await imageJobs(seedArg, options, 1, new Date());
+    const {
+      pending: [job],
+      skipped,
+    } = skipExisting(jobs, policy);
+    if (!job) {
+      console.log(`⏭️  Skipped ${skipped[0].job.outputBase}: already exists`);
+      return;
+    }
+    const result = await runJob(job);
+    console.log(describeResult(result));
+    if (!result.ok) {
+      process.exit(1);
+    }
+  });
+}
+
+/**
+ * `mondrian batch`: generates a sequence of images, optionally in parallel.
+ */
+export function batchCommand(): Command {
+  return addImageOptions(
+    new Command("batch").description(
+      "Generate a batch of images from a sequence of seeds, optionally in parallel."
+    ),
+    "mondrian_{seed}_{index}"
+  )
+    .option("-a, --amount <number>", "The number of images to generate.", "10")
+    .option(
+      "-j, --concurrency <number>",
+      `Images rendered in parallel on worker threads (this machine has ${
+        os.cpus().length
+      } CPUs).`,
+      "1"
+    )
+    .option(
+      "--no-contact-sheet",
+      "Skip the HTML contact sheet indexing the batch's images and parameters."
+    )
+    .action(async (seedArg: string | undefined, options: BatchOptions) => {
+      const amount = parseInteger(options.amount, "--amount");
+      const concurrency = parseInteger(options.concurrency, "--concurrency");
+      const policy = parseChoice(
+        options.ifExists,
+        "--if-exists",
+        EXISTING_POLICIES
+      );
+      const date = new Date();
+      const { jobs, settings } = await imageJobs(
+        seedArg,
+        options,
+        amount,
+        date,
+        true
+      );
+      const { pending, skipped } = skipExisting(jobs, policy);
+      const sweep = describeSweep(settings);
+      const combinations = jobs.length / amount;
+
+      if (skipped.length > 0) {
+        console.log(
+          `⏭️  Skipping ${skipped.length} image(s) whose files already exist.`
+        );
+      }
+      console.log(
+        `\nStarting generation of ${pending.length} Mondrian images${
+          combinations > 1
+            ? ` (${amount} seeds × ${combinations} parameter combinations)`
+            : ""
+        } (concurrency ${concurrency})...`
+      );
+
+      const start = Date.now();
+      const progress = createProgressBar(pending.length);
+      const results = await runBatch(pending, concurrency, (result) =>
+        progress.tick(describeResult(result))
+      );
+      progress.done();
+
+      if (options.contactSheet) {
+        const sheet = path.join(
+          options.output,
+          `contact_sheet_${formatTimestamp(date)}_${jobs[0].params.seed}.html`
+        );
+        const all = [...skipped, ...results].sort(
+          (a, b) => a.job.index - b.job.index
+        );
+        await writeContactSheet(sheet, all, {
+          title: `Mondrian batch of ${jobs.length} images`,
+          description: [
+            `Seeds from ${jobs[0].params.seed}, ${amount} in sequence.`,
+            ...(sweep.length > 0 ? [`Swept ${sweep.join("; ")}.`] : []),
+            `Generated ${date.toLocaleString()}.`,
+          ],
+          columns: combinations > 1 ? Math.min(combinations, 8) : undefined,
+        });
+        console.log(`📇 Contact sheet: ${sheet}`);
+      }
+
+      const failed = results.filter((result) => !result.ok);
+      console.log(
+        `\n✨ Generation complete in ${formatDuration(Date.now() - start)}: ${
+          results.length - failed.length
+        } succeeded, ${failed.length} failed${
+          skipped.length > 0 ? `, ${skipped.length} skipped` : ""
+        }.`
+      );
+      if (failed.length > 0) {
+        console.error(
+          `Failed images: ${failed
+            .map((result) => result.job.index)
+            .join(", ")}`
+        );
+        process.exit(1);
+      }
+    });
+}
@@ -0,0 +1,51 @@
+import * as fs from "fs";
+import { Command } from "commander";
+import { ImageMetadata } from "../core";
+import { readImageMetadata } from "../node/image";
+
+/**
+ * `mondrian inspect`: reads back the generation parameters embedded in
+ * image files.
+ */
+export function inspectCommand(): Command {
+  return new Command("inspect")
+    .description(
+      "Show the generation parameters embedded in PNG or SVG files written by mondrian."
+    )
+    .argument("<files...>", "PNG or SVG files to inspect.")
+    .option("--json", "Print the parameters as JSON, by file.")
+    .action(async (files: string[], options: { json?: boolean }) => {
+      const found: Record<string, ImageMetadata> = {};
+      let failed = false;
+
+      for (const file of files) {
+        try {
+          if (!fs.existsSync(file)) {
+            throw new Error(`${file} not found.`);
+          }
+          const metadata = await readImageMetadata(file);
+          if (!metadata) {
+            throw new Error(`${file} has no embedded parameters.`);
+          }
+          found[file] = metadata;
+        } catch (error) {
+          console.error(`Error: ${(error as Error).message}`);
+          failed = true;
+        }
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(found, null, 2));
+      } else {
+        for (const [file, metadata] of Object.entries(found)) {
+          console.log(file);
+          for (const [name, value] of Object.entries(metadata)) {
+            console.log(`  ${name}: ${value}`);
+          }
+        }
+      }
+      if (failed) {
+        process.exit(1);
+      }
+    });
+}
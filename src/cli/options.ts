@@ -0,0 +1,158 @@
+import * as fs from "fs";
+import {
+  RESOLUTION_PRESETS,
+  Resolution,
+  parseResolution,
+  parseSeed,
+  randomSeed,
+} from "../core";
+
+// --- Option Parsing (validation shared by every command) ---
+
+/** Reports invalid input and exits. */
+export function fail(message: string): never {
+  console.error(`Error: ${message}`);
+  process.exit(1);
+}
+
+export interface NumberRange {
+  /** Smallest allowed value. */
+  min?: number;
+  /** Largest allowed value. */
+  max?: number;
+  /** Values must be greater than this. */
+  above?: number;
+}
+
+const describeRange = ({ min, max, above }: NumberRange): string => {
+  if (above !== undefined) {
+    return max === undefined
+      ? `greater than ${above}`
+      : `greater than ${above} and at most ${max}`;
+  }
+  if (min !== undefined && max !== undefined) {
+    return `from ${min} to ${max}`;
+  }
+  if (min !== undefined) return `of at least ${min}`;
+  if (max !== undefined) return `of at most ${max}`;
+  return "";
+};
+
+const inRange = (value: number, { min, max, above }: NumberRange) =>
+  (min === undefined || value >= min) &&
+  (max === undefined || value <= max) &&
+  (above === undefined || value > above);
+
+/**
+ * Parses a number option (from the command line, a config file or the
+ * environment); exits with an error naming `flag` if it is not a number
+ * within `range`.
+ */
+export function parseNumber(
+  value: unknown,
+  flag: string,
+  range: NumberRange = {}
+): number {
+  const number = String(value).trim() === "" ? NaN : Number(value);
+  if (!Number.isFinite(number) || !inRange(number, range)) {
+    fail(`${flag} must be a number ${describeRange(range)}, got "${value}".`);
+  }
+  return number;
+}
+
+/**
+ * Parses a whole-number option; exits with an error naming `flag` if it is
+ * not a whole number within `range` (by default at least 1).
+ */
+export function parseInteger(
+  value: unknown,
+  flag: string,
+  range: NumberRange = { min: 1 }
+): number {
+  const number = String(value).trim() === "" ? NaN : Number(value);
+  if (!Number.isInteger(number) || !inRange(number, range)) {
+    fail(
+      `${flag} must be a whole number ${describeRange(range)}, got "${value}".`
+    );
+  }
+  return number;
+}
+
+/** Parses a probability or share from 0 to 1. */
+export function parseFraction(value: unknown, flag: string): number {
+  return parseNumber(value, flag, { min: 0, max: 1 });
+}
+
+/**
+ * Checks an option is one of `names`; exits with an error listing them
+ * otherwise.
+ */
+export function parseChoice<T extends string>(
+  value: unknown,
+  flag: string,
+  names: readonly T[]
+): T {
+  if (!(names as readonly unknown[]).includes(value)) {
+    fail(`${flag} must be one of ${names.join(", ")}, got "${value}".`);
+  }
+  return value as T;
+}
+
+/** The seed argument (number or text), or a random seed without one. */
+export function parseSeedArgument(value: string | undefined): number {
+  return value ? parseSeed(value) : randomSeed();
+}
+
+export const sizeDescription = `Output size: a preset (${Object.keys(
+  RESOLUTION_PRESETS
+).join(", ")}), <width>x<height>, or a paper size like a4@300dpi.`;
+
+/** The --size, --width, --height and --dpi options, as given. */
+export interface OutputSizeOptions {
+  size?: string;
+  width?: string;
+  height?: string;
+  dpi?: string;
+}
+
+/**
+ * Resolves --size, --width, --height and --dpi. `base` is the size when none
+ * is given; a lone width or height keeps its aspect ratio.
+ */
+export function parseOutputSize(
+  options: OutputSizeOptions,
+  base: Resolution
+): Resolution {
+  const dpi =
+    options.dpi === undefined ? undefined : parseInteger(options.dpi, "--dpi");
+  const width =
+    options.width === undefined ? null : parseInteger(options.width, "--width");
+  const height =
+    options.height === undefined
+      ? null
+      : parseInteger(options.height, "--height");
+
+  let size: Resolution;
+  try {
+    size = options.size
+      ? parseResolution(options.size, dpi)
+      : { ...base, dpi: dpi ?? base.dpi };
+  } catch (error) {
+    fail((error as Error).message);
+  }
+
+  const aspect = size.width / size.height;
+  return {
+    width: width ?? (height ? Math.round(height * aspect) : size.width),
+    height: height ?? (width ? Math.round(width / aspect) : size.height),
+    dpi: size.dpi,
+  };
+}
+
+/** Creates the output directory if it doesn't exist. */
+export function ensureOutputDirectory(dir: string): void {
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+    console.log(`Created output directory: ${dir}`);
+  }
+}
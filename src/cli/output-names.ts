@@ -0,0 +1,85 @@
+import { CompositionParams } from "../core";
+import { fail } from "./options";
+
+// --- Output Names (filename templates) ---
+
+/** The placeholders a filename template may use, e.g. `mondrian_{seed}`. */
+export const NAME_PLACEHOLDERS = [
+  "seed",
+  "depth",
+  "colorChance",
+  "lineWeight",
+  "palette",
+  "layout",
+  "index",
+  "date",
+] as const;
+export type NamePlaceholder = (typeof NAME_PLACEHOLDERS)[number];
+
+/** What to do when an image's files already exist. */
+export const EXISTING_POLICIES = ["overwrite", "skip"] as const;
+export type ExistingPolicy = (typeof EXISTING_POLICIES)[number];
+
+export const nameDescription = `Filename template (without extension) using ${NAME_PLACEHOLDERS.map(
+  (name) => `{${name}}`
+).join(", ")}; may include subdirectories.`;
+
+const PLACEHOLDER = /\{([^{}]*)\}/g;
+
+/**
+ * Checks a filename template only uses known placeholders; exits with an
+ * error otherwise.
+ */
+export function parseNameTemplate(template: unknown): string {
+  const text = String(template).trim();
+  if (text === "") {
+    fail("--name must not be empty.");
+  }
+  for (const [, name] of text.matchAll(PLACEHOLDER)) {
+    if (!(NAME_PLACEHOLDERS as readonly string[]).includes(name)) {
+      fail(
+        `--name has an unknown placeholder {${name}}; use ${NAME_PLACEHOLDERS.map(
+          (placeholder) => `{${placeholder}}`
+        ).join(", ")}.`
+      );
+    }
+  }
+  return text;
+}
+
+/** `date` as a sortable local timestamp, e.g. 20261019-163317. */
+export function formatTimestamp(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(
+    date.getDate()
+  )}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+}
+
+// Keeps names like palette names filename-safe
+const safe = (text: string) => text.replace(/[^\w.-]+/g, "-");
+
+/**
+ * Fills in a filename template for one image. `{index}` is zero-padded to
+ * the digits of `total`, so names sort in batch order; `{date}` is the
+ * time the run started.
+ */
+export function formatName(
+  template: string,
+  params: CompositionParams,
+  { index, total, date }: { index: number; total: number; date: Date }
+): string {
+  const values: Record<NamePlaceholder, string> = {
+    seed: String(params.seed),
+    depth: String(params.maxDepth),
+    colorChance: params.colorChance.toFixed(2),
+    lineWeight: String(params.lineWeight),
+    palette: safe(params.palette?.name ?? "classic"),
+    layout: params.layout ?? "bisection",
+    index: String(index).padStart(String(total).length, "0"),
+    date: formatTimestamp(date),
+  };
+  return template.replace(
+    PLACEHOLDER,
+    (_, name: NamePlaceholder) => values[name]
+  );
+}
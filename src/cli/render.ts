@@ -0,0 +1,107 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Command } from "commander";
+import {
+  Resolution,
+  documentMetadata,
+  parseDocument,
+  scaleComposition,
+} from "../core";
+import { OUTPUT_FORMATS, writeComposition } from "../node/image";
+import {
+  OutputSizeOptions,
+  ensureOutputDirectory,
+  fail,
+  parseChoice,
+  parseOutputSize,
+  sizeDescription,
+} from "./options";
+
+/** The options of `render`, as given. */
+interface RenderOptions extends OutputSizeOptions {
+  output: string;
+  format: string;
+}
+
+// Whether width x height is the document's size scaled, up to rounding
+// either side to whole pixels
+const sameAspect = (document: Resolution, width: number, height: number) =>
+  Math.round((width * document.height) / document.width) === height ||
+  Math.round((height * document.width) / document.height) === width;
+
+/**
+ * `mondrian render`: re-renders a composition document.
+ */
+export function renderCommand(): Command {
+  return new Command("render")
+    .description(
+      "Re-render a composition document (.json) at any resolution or format."
+    )
+    .argument("<document>", "Composition document (.json) to render.")
+    .option(
+      "-o, --output <dir>",
+      "The output directory for the images.",
+      "./output"
+    )
+    .option(
+      "--size <size>",
+      `${sizeDescription} Must have the document's aspect ratio. Default: the document's.`
+    )
+    .option(
+      "-W, --width <pixels>",
+      "Output width. Default: the document's, or scaled from --height."
+    )
+    .option(
+      "-H, --height <pixels>",
+      "Output height. Default: the document's, or scaled from --width."
+    )
+    .option("--dpi <number>", "Print density recorded in PNG/SVG files.")
+    .option(
+      "-f, --format <format>",
+      `Output format: ${OUTPUT_FORMATS.join(", ")}.`,
+      "png"
+    )
+    .action(async (documentPath: string, options: RenderOptions) => {
+      const format = parseChoice(options.format, "--format", OUTPUT_FORMATS);
+
+      let document;
+      try {
+        document = parseDocument(
+          await fs.promises.readFile(documentPath, "utf8")
+        );
+      } catch (error) {
+        fail((error as Error).message);
+      }
+
+      const { width, height, dpi } = parseOutputSize(options, {
+        width: document.width,
+        height: document.height,
+      });
+      if (!sameAspect(document, width, height)) {
+        fail(
+          `${width}x${height} does not have the document's aspect ratio (${document.width}x${document.height}); give --width or --height alone to scale it.`
+        );
+      }
+
+      const outputBase = path.join(
+        options.output,
+        `${path.basename(documentPath, ".json")}_${width}x${height}`
+      );
+      const composition = scaleComposition(document, width, height);
+      let written;
+      try {
+        ensureOutputDirectory(options.output);
+        written = await writeComposition(
+          outputBase,
+          composition,
+          format,
+          dpi,
+          documentMetadata(composition)
+        );
+      } catch (error) {
+        fail((error as Error).message);
+      }
+
+      console.log(`✅ Rendered ${written.join(", ")}`);
+    });
+}
@@ -0,0 +1,97 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Command } from "commander";
+import { DEFAULT_API_OPTIONS, createRenderApi } from "../node/api";
+import { createWebServer } from "../node/server";
+import { fail, parseInteger, parseNumber } from "./options";
+
+/** The options of `serve`, as given. */
+interface ServeOptions {
+  port: string;
+  host: string;
+  root: string;
+  maxSize: string;
+  maxDuration: string;
+  cacheSize: string;
+  api: boolean;
+}
+
+/**
+ * `mondrian serve`: serves the web app and the render API over HTTP.
+ */
+export function serveCommand(): Command {
+  return new Command("serve")
+    .description(
+      "Serve the web app, and an API rendering compositions and their sound, over HTTP."
+    )
+    .option("--port <number>", "Port to listen on.", "8080")
+    .option(
+      "--host <address>",
+      "Address to listen on; 0.0.0.0 for every network interface.",
+      "127.0.0.1"
+    )
+    .option(
+      "--root <dir>",
+      "Directory of the web app (built with npm run build:web).",
+      "./src/web"
+    )
+    .option(
+      "--max-size <pixels>",
+      "Largest width or height the API renders.",
+      String(DEFAULT_API_OPTIONS.maxSize)
+    )
+    .option(
+      "--max-duration <seconds>",
+      "Longest sound the API renders.",
+      String(DEFAULT_API_OPTIONS.maxDuration)
+    )
+    .option(
+      "--cache-size <MB>",
+      "Memory for caching API responses.",
+      String(DEFAULT_API_OPTIONS.cacheSize / (1024 * 1024))
+    )
+    .option("--no-api", "Serve only the web app.")
+    .addHelpText(
+      "after",
+      "\nAPI: GET /composition.png, /composition.svg, /composition.json and /tone.wav, with the composition's parameters as a query, e.g. /composition.png?seed=42&depth=5&colorChance=0.3&lineWeight=40&width=1920&height=1080."
+    )
+    .action((options: ServeOptions) => {
+      const port = parseInteger(options.port, "--port", {
+        min: 1,
+        max: 65535,
+      });
+      const api = options.api
+        ? createRenderApi({
+            maxSize: parseInteger(options.maxSize, "--max-size"),
+            maxDuration: parseNumber(options.maxDuration, "--max-duration", {
+              above: 0,
+            }),
+            cacheSize:
+              parseNumber(options.cacheSize, "--cache-size", { min: 0 }) *
+              1024 *
+              1024,
+          })
+        : undefined;
+      if (!fs.existsSync(path.join(options.root, "index.html"))) {
+        fail(`--root ${options.root} has no index.html.`);
+      }
+      if (!fs.existsSync(path.join(options.root, "dist", "bundle.js"))) {
+        console.warn(
+          `Warning: ${options.root} has no dist/bundle.js yet; run npm run build:web.`
+        );
+      }
+
+      const server = createWebServer(options.root, api);
+      server.on("error", (error) => fail(error.message));
+      server.listen(port, options.host, () => {
+        console.log(
+          `Serving ${options.root} at http://${options.host}:${port}/ (Ctrl+C to stop)`
+        );
+        if (api) {
+          console.log(
+            `Render API at http://${options.host}:${port}/composition.png?seed=42`
+          );
+        }
+      });
+    });
+}
@@ -0,0 +1,110 @@
+import { Command } from "commander";
+import {
+  DEFAULT_EFFECTS,
+  DEFAULT_HARMONY,
+  DEFAULT_VOICE,
+  EffectsSettings,
+  Harmony,
+  KEY_NAMES,
+  SCALE_NAMES,
+  SONIFICATION_NAMES,
+  SonificationName,
+  VOICES,
+  VOICE_NAMES,
+  VoiceSettings,
+  parseVoices,
+} from "../core";
+import { fail, parseChoice, parseFraction } from "./options";
+
+// --- Sound Options (shared by the commands that make sound) ---
+
+/** The options added by `addSoundOptions`, as given. */
+export interface SoundOptions {
+  sonification: string;
+  key: string;
+  scale: string;
+  voices: string;
+  voice: string;
+  reverb: string;
+  delay: string;
+}
+
+export interface SoundSettings {
+  /** Mapping from each composition to its notes. */
+  sonification: SonificationName;
+  /** Key, scale and chord size. */
+  harmony: Harmony;
+  voice: VoiceSettings;
+  /** Reverb and delay. */
+  effects: EffectsSettings;
+}
+
+/**
+ * Adds the options for how compositions turn into notes and how the notes
+ * sound.
+ */
+export function addSoundOptions(command: Command): Command {
+  return command
+    .option(
+      "--sonification <name>",
+      `Mapping from each composition to its notes (${SONIFICATION_NAMES.join(
+        ", "
+      )}).`,
+      "timbre"
+    )
+    .option(
+      "-k, --key <key>",
+      `Key (${KEY_NAMES.join(", ")}).`,
+      DEFAULT_HARMONY.key
+    )
+    .option(
+      "--scale <scale>",
+      `Scale (${SCALE_NAMES.join(", ")}).`,
+      DEFAULT_HARMONY.scale
+    )
+    .option(
+      "-v, --voices <number>",
+      "Notes per chord (2-4).",
+      String(DEFAULT_HARMONY.voices)
+    )
+    .option(
+      "--voice <name>",
+      `Synth voice (${VOICE_NAMES.join(", ")}).`,
+      DEFAULT_VOICE.name
+    )
+    .option("--reverb <0-1>", "Reverb mix.", String(DEFAULT_EFFECTS.reverb))
+    .option(
+      "--delay <0-1>",
+      "Delay (echo) mix.",
+      String(DEFAULT_EFFECTS.delay)
+    );
+}
+
+/**
+ * Validates the options added by `addSoundOptions`; exits on invalid input.
+ */
+export function parseSoundOptions(options: SoundOptions): SoundSettings {
+  const sonification = parseChoice(
+    options.sonification,
+    "--sonification",
+    SONIFICATION_NAMES
+  );
+  const key = parseChoice(options.key, "--key", KEY_NAMES);
+  const scale = parseChoice(options.scale, "--scale", SCALE_NAMES);
+  const voice = parseChoice(options.voice, "--voice", VOICE_NAMES);
+  const reverb = parseFraction(options.reverb, "--reverb");
+  const delay = parseFraction(options.delay, "--delay");
+  let voices: number;
+  try {
+    voices = parseVoices(Number(options.voices));
+  } catch (error) {
+    fail((error as Error).message);
+  }
+
+  return {
+    sonification,
+    harmony: { key, scale, voices },
+    voice: VOICES[voice],
+    effects: { ...DEFAULT_EFFECTS, reverb, delay },
+  };
+}
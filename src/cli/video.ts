@@ -0,0 +1,178 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Command } from "commander";
+import {
+  RESOLUTION_PRESETS,
+  TONE_DURATION,
+  TRANSITION_NAMES,
+  composeSession,
+  renderSession,
+} from "../core";
+import { createProgressBar, formatDuration } from "../node/progress";
+import { SAMPLE_RATE, hasFfmpeg, writeWav } from "../node/sound";
+import { VIDEO_CONTAINERS, muxVideo, writeFrames } from "../node/video";
+import {
+  OutputSizeOptions,
+  fail,
+  parseChoice,
+  parseInteger,
+  parseNumber,
+  parseOutputSize,
+  parseSeedArgument,
+  sizeDescription,
+} from "./options";
+import {
+  SoundOptions,
+  addSoundOptions,
+  parseSoundOptions,
+} from "./sound-options";
+
+/** The options of `video`, as given. */
+interface VideoOptions extends SoundOptions, OutputSizeOptions {
+  output: string;
+  count: string;
+  duration: string;
+  fps: string;
+  transition: string;
+  transitionDuration: string;
+  container: string;
+}
+
+/**
+ * `mondrian video`: renders a sequence of compositions with their sound.
+ */
+export function videoCommand(): Command {
+  return addSoundOptions(
+    new Command("video")
+      .description(
+        "Render a sequence of compositions as PNG frames plus a WAV sound track, muxed to a video when ffmpeg is installed."
+      )
+      .argument(
+        "[seed]",
+        "Seed to start from (number or text). Default: random."
+      )
+  )
+    .option(
+      "-o, --output <dir>",
+      "The output directory; the video goes in a video_<seed> folder.",
+      "./output"
+    )
+    .option("-n, --count <number>", "Number of compositions.", "12")
+    .option(
+      "-d, --duration <seconds>",
+      "Seconds each composition is shown.",
+      String(TONE_DURATION)
+    )
+    .option("--fps <number>", "Frames per second.", "30")
+    .option("--size <size>", `${sizeDescription} Default: 1080p.`)
+    .option("-W, --width <pixels>", "Frame width.")
+    .option("-H, --height <pixels>", "Frame height.")
+    .option(
+      "-t, --transition <name>",
+      `Transition between compositions (${TRANSITION_NAMES.join(", ")}).`,
+      "fade"
+    )
+    .option(
+      "--transition-duration <seconds>",
+      "Length of each transition; the sound crossfades along.",
+      "0.5"
+    )
+    .option(
+      "--container <format>",
+      `Video format (${VIDEO_CONTAINERS.join(", ")}).`,
+      "mp4"
+    )
+    .action(async (seedArg: string | undefined, options: VideoOptions) => {
+      const sound = parseSoundOptions(options);
+      const count = parseInteger(options.count, "--count");
+      const fps = parseNumber(options.fps, "--fps", { above: 0 });
+      const duration = parseNumber(options.duration, "--duration", {
+        above: 0,
+      });
+      const transition = parseChoice(
+        options.transition,
+        "--transition",
+        TRANSITION_NAMES
+      );
+      const transitionDuration =
+        transition === "cut"
+          ? 0
+          : parseNumber(options.transitionDuration, "--transition-duration", {
+              min: 0,
+              max: duration,
+            });
+      const container = parseChoice(
+        options.container,
+        "--container",
+        VIDEO_CONTAINERS
+      );
+      const { width, height } = parseOutputSize(
+        options,
+        RESOLUTION_PRESETS["1080p"]
+      );
+
+      const seed = parseSeedArgument(seedArg);
+      const outputDir = path.join(options.output, `video_${seed}`);
+      const framesDir = path.join(outputDir, "frames");
+      fs.mkdirSync(framesDir, { recursive: true });
+
+      const session = composeSession(seed, {
+        count,
+        width,
+        height,
+        sonification: sound.sonification,
+        harmony: sound.harmony,
+        duration,
+      });
+
+      // The sound crossfades exactly as the frames transition
+      const audioPath = path.join(outputDir, "audio.wav");
+      const audio = renderSession(
+        session.map((entry) => entry.notes),
+        {
+          sampleRate: SAMPLE_RATE,
+          duration,
+          crossfade: transitionDuration,
+          voice: sound.voice,
+          effects: sound.effects,
+        }
+      );
+      await writeWav(audioPath, audio, {
+        sampleRate: SAMPLE_RATE,
+        channels: 2,
+      });
+
+      console.log(
+        `\nRendering ${count} compositions from seed ${seed} at ${width}x${height}, ${fps} fps...`
+      );
+      const start = Date.now();
+      const total = Math.round(count * duration * fps);
+      const progress = createProgressBar(total);
+      await writeFrames(
+        framesDir,
+        session,
+        { fps, duration, transition, transitionDuration },
+        () => progress.tick()
+      );
+      progress.done();
+      console.log(
+        `✅ Wrote ${total} frames to ${framesDir} and the sound to ${audioPath} in ${formatDuration(
+          Date.now() - start
+        )}`
+      );
+
+      if (!hasFfmpeg()) {
+        console.log(
+          "ffmpeg was not found, so the frames and sound were left to mux by hand."
+        );
+        return;
+      }
+      const videoPath = path.join(outputDir, `video.${container}`);
+      try {
+        muxVideo(framesDir, audioPath, videoPath, fps, container);
+      } catch (error) {
+        fail((error as Error).message);
+      }
+      console.log(`✅ Muxed ${videoPath}`);
+    });
+}
@@ -0,0 +1,178 @@
+import { CompositionParams } from "./composition";
+import { relativeScale } from "./resolution";
+
+// --- Audio Analysis (listening to input that drives the compositions) ---
+
+/** Features of one frame of audio input. */
+export interface AudioFeatures {
+  /** Whether a new sound (a beat, a note) started in this frame. */
+  onset: boolean;
+  /** Spectral energy relative to the most heard recently, 0 to 1. */
+  energy: number;
+  /** Loudness, 0 (-60 dBFS or quieter) to 1 (full scale). */
+  loudness: number;
+  /** Estimated tempo in beats per minute; null until enough onsets. */
+  tempo: number | null;
+}
+
+export interface FeatureTracker {
+  /**
+   * Analyses one frame of input.
+   * @param spectrum Magnitude of each frequency bin in decibels, as from
+   * `AnalyserNode.getFloatFrequencyData`.
+   * @param waveform Samples from -1 to 1.
+   * @param time Time of the frame in seconds.
+   */
+  update(
+    spectrum: Float32Array,
+    waveform: Float32Array,
+    time: number
+  ): AudioFeatures;
+}
+
+// Onsets: the spectral flux (increase in magnitude across all bins) stands
+// out from its recent average by this many standard deviations
+const ONSET_WINDOW = 1; // seconds
+const ONSET_SENSITIVITY = 1.5;
+const MIN_ONSET_GAP = 0.1; // seconds
+
+// Input quieter than this is silence, in dBFS
+const SILENCE = -60;
+
+// The energy scale adapts to the input; its peak halves every 10 seconds
+const ENERGY_HALF_LIFE = 10;
+
+// Tempo: the median gap between recent onsets, folded into this range
+const TEMPO_WINDOW = 8; // seconds
+const MIN_TEMPO_ONSETS = 4;
+const MIN_TEMPO = 60;
+const MAX_TEMPO = 180;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Estimates the tempo from onset times: the median gap between successive
+ * onsets, doubled or halved into `MIN_TEMPO`..`MAX_TEMPO`.
+ * @returns Beats per minute, or null with too few onsets.
+ */
+export function estimateTempo(onsets: number[]): number | null {
+  if (onsets.length < MIN_TEMPO_ONSETS) {
+    return null;
+  }
+  const gaps = onsets.slice(1).map((time, i) => time - onsets[i]);
+  let tempo = 60 / median(gaps);
+  while (tempo < MIN_TEMPO) tempo *= 2;
+  while (tempo > MAX_TEMPO) tempo /= 2;
+  return tempo;
+}
+
+/**
+ * Creates a tracker that turns successive frames of audio input into
+ * onsets, energy, loudness and tempo.
+ */
+export function createFeatureTracker(): FeatureTracker {
+  let previous: Float32Array | null = null;
+  let fluxes: { time: number; flux: number }[] = [];
+  let onsets: number[] = [];
+  let peakEnergy = 0;
+  let lastTime: number | null = null;
+
+  return {
+    update(spectrum, waveform, time) {
+      // Loudness from the RMS level
+      const rms = Math.sqrt(
+        waveform.reduce((sum, sample) => sum + sample * sample, 0) /
+          waveform.length
+      );
+      const decibels = 20 * Math.log10(Math.max(rms, 1e-9));
+      const loudness = Math.min(1, Math.max(0, 1 - decibels / SILENCE));
+
+      // Energy and flux from the linear magnitudes
+      const magnitudes = spectrum.map((db) => Math.pow(10, db / 20));
+      let energy = 0;
+      let flux = 0;
+      magnitudes.forEach((magnitude, i) => {
+        energy += magnitude * magnitude;
+        if (previous) flux += Math.max(0, magnitude - previous[i]);
+      });
+      previous = magnitudes;
+
+      const elapsed = lastTime === null ? 0 : time - lastTime;
+      lastTime = time;
+      peakEnergy = Math.max(
+        energy,
+        peakEnergy * Math.pow(0.5, elapsed / ENERGY_HALF_LIFE)
+      );
+
+      // An onset stands out from the flux of the last second
+      fluxes = fluxes.filter((entry) => entry.time > time - ONSET_WINDOW);
+      const mean =
+        fluxes.reduce((sum, entry) => sum + entry.flux, 0) /
+        Math.max(1, fluxes.length);
+      const deviation = Math.sqrt(
+        fluxes.reduce((sum, entry) => sum + (entry.flux - mean) ** 2, 0) /
+          Math.max(1, fluxes.length)
+      );
+      fluxes.push({ time, flux });
+
+      const lastOnset = onsets[onsets.length - 1] ?? -Infinity;
+      const onset =
+        loudness > 0 &&
+        fluxes.length > 1 &&
+        flux > mean + ONSET_SENSITIVITY * deviation &&
+        time - lastOnset >= MIN_ONSET_GAP;
+      if (onset) onsets.push(time);
+      onsets = onsets.filter((onsetTime) => onsetTime > time - TEMPO_WINDOW);
+
+      return {
+        onset,
+        energy: peakEnergy > 0 ? energy / peakEnergy : 0,
+        loudness,
+        tempo: estimateTempo(onsets),
+      };
+    },
+  };
+}
+
+// Ranges the features map onto
+const MIN_COLOR_CHANCE = 0.1;
+const MAX_COLOR_CHANCE = 0.6;
+const MIN_LINE_WEIGHT = 15; // at 4K
+const MAX_LINE_WEIGHT = 70;
+const BEATS_PER_COMPOSITION = 4;
+
+/**
+ * Lets audio features shape a composition: more spectral energy colors more
+ * blocks, louder input draws heavier lines.
+ */
+export function applyFeatures(
+  params: CompositionParams,
+  features: AudioFeatures
+): CompositionParams {
+  const scale = relativeScale(params.width, params.height);
+  return {
+    ...params,
+    colorChance:
+      MIN_COLOR_CHANCE +
+      (MAX_COLOR_CHANCE - MIN_COLOR_CHANCE) * features.energy,
+    lineWeight: Math.max(
+      1,
+      Math.round(
+        (MIN_LINE_WEIGHT +
+          (MAX_LINE_WEIGHT - MIN_LINE_WEIGHT) * features.loudness) *
+          scale
+      )
+    ),
+  };
+}
+
+/**
+ * Shortest time between compositions at a tempo: one bar of four beats.
+ * @returns Seconds.
+ */
+export function tempoInterval(tempo: number): number {
+  return (BEATS_PER_COMPOSITION * 60) / tempo;
+}
@@ -0,0 +1,195 @@
+import { CompositionShape, LAYOUTS, LayoutName } from "./layouts";
+import { GridLine, LineStyle, resolveLineStyle, styleGridLines } from "./lines";
+import { DEFAULT_PALETTE, Palette } from "./palette";
+import { createRandom, deriveSeed } from "./random";
+import { relativeScale } from "./resolution";
+import {
+  MAX_COLORED_AREA,
+  RULES,
+  RuleContext,
+  RuleName,
+  applyLineRules,
+  colorBlocksWithRules,
+} from "./rules";
+
+// --- Mondrian Generation Logic (environment-agnostic) ---
+
+export const MIN_BLOCK_SIZE = 300; // Minimum dimension for a block to be split further (at 4K)
+
+// --- Types ---
+
+export interface Block {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ColoredBlock extends Block {
+  color: string;
+}
+
+export interface CompositionParams {
+  width: number;
+  height: number;
+  /** Fully determines layout and colors for a given set of parameters. */
+  seed: number;
+  /** Max split depth (complexity). */
+  maxDepth: number;
+  /** Probability (0.0 to 1.0) a block is colored. */
+  colorChance: number;
+  /** Base thickness of the grid lines, in pixels. */
+  lineWeight: number;
+  /** Distribution of line weights, partial and double lines. Default: uniform. */
+  lineStyle?: Partial<LineStyle>;
+  /** Blocks smaller than this are not split. Default: `MIN_BLOCK_SIZE`
+   * scaled to the canvas. */
+  minBlockSize?: number;
+  /** Default: the classic De Stijl palette. */
+  palette?: Palette;
+  /** Overrides the palette's line color. */
+  lineColor?: string;
+  /** Composition rules to enforce. Default: none. */
+  rules?: RuleName[];
+  /** Cap for the "max-area" rule, as a fraction of the canvas. */
+  maxColoredArea?: number;
+  /** Layout strategy. Default: recursive bisection. */
+  layout?: LayoutName;
+}
+
+export interface Composition {
+  width: number;
+  height: number;
+  seed: number;
+  shape: CompositionShape;
+  blocks: ColoredBlock[];
+  /** Grid lines in the order the layout created them (frame first). */
+  lines: GridLine[];
+  /** Small colored segments drawn on top of the lines. */
+  accents: ColoredBlock[];
+  lineWeight: number;
+  lineColor: string;
+  background: string;
+  /** Palette the block colors were picked from. */
+  palette: Palette;
+  /** Layout strategy and rules it was generated with. */
+  layout: LayoutName;
+  rules: RuleName[];
+}
+
+// --- Composition ---
+
+/**
+ * Generates a complete composition. Layout, colors and rules use independent
+ * streams derived from `params.seed`, so the result is identical in Node and
+ * in the browser.
+ */
+export function generateComposition(params: CompositionParams): Composition {
+  const palette = params.palette ?? DEFAULT_PALETTE;
+  const layoutName = params.layout ?? "bisection";
+  const layout = LAYOUTS[layoutName];
+
+  const { blocks, splits } = layout.generate(
+    {
+      width: params.width,
+      height: params.height,
+      maxDepth: params.maxDepth,
+      minBlockSize:
+        params.minBlockSize ??
+        MIN_BLOCK_SIZE * relativeScale(params.width, params.height),
+    },
+    createRandom(deriveSeed(params.seed, "layout"))
+  );
+  const lines = styleGridLines(
+    splits,
+    params.lineWeight,
+    resolveLineStyle(params.lineStyle),
+    params.width,
+    params.height,
+    createRandom(deriveSeed(params.seed, "lines"))
+  );
+
+  const rules = (params.rules ?? []).map((name) => RULES[name]);
+  const context: RuleContext = {
+    width: params.width,
+    height: params.height,
+    shape: layout.shape,
+    palette,
+    random: createRandom(deriveSeed(params.seed, "rules")),
+    maxColoredArea: params.maxColoredArea ?? MAX_COLORED_AREA,
+  };
+
+  const finalLines = applyLineRules(lines, rules, context);
+
+  return {
+    width: params.width,
+    height: params.height,
+    seed: params.seed,
+    shape: layout.shape,
+    blocks: colorBlocksWithRules(
+      blocks,
+      params.colorChance,
+      rules,
+      context,
+      createRandom(deriveSeed(params.seed, "colors"))
+    ),
+    lines: finalLines,
+    accents: layout.accents
+      ? layout.accents(
+          finalLines,
+          palette,
+          createRandom(deriveSeed(params.seed, "accents"))
+        )
+      : [],
+    lineWeight: params.lineWeight,
+    lineColor: params.lineColor ?? palette.lineColor,
+    background: palette.background,
+    palette,
+    layout: layoutName,
+    rules: params.rules ?? [],
+  };
+}
+
+/**
+ * Rescales a composition to new canvas dimensions. Block edges are rounded
+ * consistently so neighbouring blocks stay flush, and line weights follow
+ * the smaller scale factor.
+ */
+export function scaleComposition(
+  composition: Composition,
+  width: number,
+  height: number
+): Composition {
+  const scaleX = width / composition.width;
+  const scaleY = height / composition.height;
+  const scaleWeight = Math.min(scaleX, scaleY);
+
+  const scaleBlock = (block: ColoredBlock): ColoredBlock => {
+    const x = Math.round(block.x * scaleX);
+    const y = Math.round(block.y * scaleY);
+    return {
+      ...block,
+      x,
+      y,
+      width: Math.round((block.x + block.width) * scaleX) - x,
+      height: Math.round((block.y + block.height) * scaleY) - y,
+    };
+  };
+
+  return {
+    ...composition,
+    width,
+    height,
+    blocks: composition.blocks.map(scaleBlock),
+    accents: composition.accents.map(scaleBlock),
+    lines: composition.lines.map((line) => ({
+      ...line,
+      x1: Math.round(line.x1 * scaleX),
+      y1: Math.round(line.y1 * scaleY),
+      x2: Math.round(line.x2 * scaleX),
+      y2: Math.round(line.y2 * scaleY),
+      weight: line.weight * scaleWeight,
+    })),
+    lineWeight: composition.lineWeight * scaleWeight,
+  };
+}
@@ -0,0 +1,246 @@
+import { ColoredBlock, Composition } from "./composition";
+import {
+  CompositionShape,
+  LAYOUT_NAMES,
+  LayoutName,
+  isLayoutName,
+} from "./layouts";
+import { GridLine, extractGridLines } from "./lines";
+import { Palette, parsePalette } from "./palette";
+import { RULE_NAMES, RuleName, isRuleName } from "./rules";
+import {
+  Note,
+  TONE_DURATION,
+  WAVEFORMS,
+  Waveform,
+  tonesToNotes,
+} from "./sonification";
+
+// --- Composition Document (versioned JSON archive format) ---
+
+// Version history:
+// 1 - initial format: blocks, one line weight, `palette` as a plain list of
+//     colors and the `tones` (Hz) that played with the composition
+// 2 - full `palette` with weights, background and line color; explicit
+//     `lines` with their own `weight` and split `depth`; canvas `shape`;
+//     boogie-woogie `accents`; the `layout` and `rules` generated with;
+//     sonified `notes` replace the plain `tones`
+export const DOCUMENT_VERSION = 2;
+
+/**
+ * Everything needed to re-render a composition and replay its notes,
+ * independent of the parameters and code version that produced it.
+ */
+export interface CompositionDocument extends Composition {
+  version: number;
+  /** The notes that accompanied the composition. */
+  notes: Note[];
+}
+
+export function createDocument(
+  composition: Composition,
+  notes: Note[]
+): CompositionDocument {
+  return { version: DOCUMENT_VERSION, ...composition, notes };
+}
+
+export function serializeDocument(document: CompositionDocument): string {
+  return JSON.stringify(document, null, 2) + "\n";
+}
+
+// --- Validation ---
+
+function fail(message: string): never {
+  throw new Error(`Invalid composition document: ${message}`);
+}
+
+function expectNumber(value: unknown, field: string): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    fail(`"${field}" must be a number.`);
+  }
+  return value;
+}
+
+function expectString(value: unknown, field: string): string {
+  if (typeof value !== "string") {
+    fail(`"${field}" must be a string.`);
+  }
+  return value;
+}
+
+function expectArray(value: unknown, field: string): unknown[] {
+  if (!Array.isArray(value)) {
+    fail(`"${field}" must be an array.`);
+  }
+  return value;
+}
+
+function parseBlock(
+  value: unknown,
+  index: number,
+  list = "blocks"
+): ColoredBlock {
+  const block = (value ?? {}) as Record<string, unknown>;
+  const field = `${list}[${index}]`;
+  return {
+    x: expectNumber(block.x, `${field}.x`),
+    y: expectNumber(block.y, `${field}.y`),
+    width: expectNumber(block.width, `${field}.width`),
+    height: expectNumber(block.height, `${field}.height`),
+    color: expectString(block.color, `${field}.color`),
+  };
+}
+
+function parseLine(value: unknown, index: number): GridLine {
+  const line = (value ?? {}) as Record<string, unknown>;
+  const field = `lines[${index}]`;
+  return {
+    x1: expectNumber(line.x1, `${field}.x1`),
+    y1: expectNumber(line.y1, `${field}.y1`),
+    x2: expectNumber(line.x2, `${field}.x2`),
+    y2: expectNumber(line.y2, `${field}.y2`),
+    weight: expectNumber(line.weight, `${field}.weight`),
+    depth: expectNumber(line.depth, `${field}.depth`),
+  };
+}
+
+function parseNote(value: unknown, index: number): Note {
+  const note = (value ?? {}) as Record<string, unknown>;
+  const field = `notes[${index}]`;
+  if (!(WAVEFORMS as readonly unknown[]).includes(note.waveform)) {
+    fail(`"${field}.waveform" must be one of ${WAVEFORMS.join(", ")}.`);
+  }
+  return {
+    frequency: expectNumber(note.frequency, `${field}.frequency`),
+    start: expectNumber(note.start, `${field}.start`),
+    duration: expectNumber(note.duration, `${field}.duration`),
+    amplitude: expectNumber(note.amplitude, `${field}.amplitude`),
+    pan: expectNumber(note.pan, `${field}.pan`),
+    waveform: note.waveform as Waveform,
+  };
+}
+
+function parseShape(value: unknown, version: number): CompositionShape {
+  if (version < 2) {
+    return "rectangle";
+  }
+  if (value !== "rectangle" && value !== "lozenge") {
+    fail(`"shape" must be "rectangle" or "lozenge".`);
+  }
+  return value;
+}
+
+function parseLayout(value: unknown, version: number): LayoutName {
+  if (version < 2) {
+    return "bisection";
+  }
+  if (typeof value !== "string" || !isLayoutName(value)) {
+    fail(`"layout" must be one of ${LAYOUT_NAMES.join(", ")}.`);
+  }
+  return value;
+}
+
+function parseRules(value: unknown, version: number): RuleName[] {
+  if (version < 2) {
+    return [];
+  }
+  return expectArray(value, "rules").map((rule, i) => {
+    if (typeof rule !== "string" || !isRuleName(rule)) {
+      fail(`"rules[${i}]" must be one of ${RULE_NAMES.join(", ")}.`);
+    }
+    return rule;
+  });
+}
+
+function parseDocumentPalette(
+  value: unknown,
+  version: number,
+  background: string,
+  lineColor: string
+): Palette {
+  if (version >= 2) {
+    return parsePalette(value);
+  }
+  return {
+    name: "custom",
+    colors: expectArray(value, "palette").map((color, i) => ({
+      color: expectString(color, `palette[${i}]`),
+      weight: 1,
+    })),
+    background,
+    lineColor,
+  };
+}
+
+/**
+ * Parses and validates a composition document, migrating older versions to
+ * the current one.
+ * @throws Error if the JSON is malformed, of an unsupported version, or
+ * missing required fields.
+ */
+export function parseDocument(json: string): CompositionDocument {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    fail(`not valid JSON (${(error as Error).message}).`);
+  }
+  if (typeof data !== "object" || data === null) {
+    fail("expected a JSON object.");
+  }
+
+  const version = expectNumber(data.version, "version");
+  if (!Number.isInteger(version) || version < 1) {
+    fail(`"version" must be a whole number from 1, got ${version}.`);
+  }
+  if (version > DOCUMENT_VERSION) {
+    fail(
+      `version ${version} is newer than the supported version ${DOCUMENT_VERSION}.`
+    );
+  }
+
+  const lineColor = expectString(data.lineColor, "lineColor");
+  const background = expectString(data.background, "background");
+  const blocks = expectArray(data.blocks, "blocks").map((block, i) =>
+    parseBlock(block, i)
+  );
+  const lineWeight = expectNumber(data.lineWeight, "lineWeight");
+
+  return {
+    version: DOCUMENT_VERSION,
+    width: expectNumber(data.width, "width"),
+    height: expectNumber(data.height, "height"),
+    seed: expectNumber(data.seed, "seed"),
+    shape: parseShape(data.shape, version),
+    blocks,
+    lines:
+      version >= 2
+        ? expectArray(data.lines, "lines").map((line, i) => parseLine(line, i))
+        : extractGridLines(blocks).map((line) => ({
+            ...line,
+            weight: lineWeight,
+            depth: 0,
+          })),
+    accents:
+      version >= 2
+        ? expectArray(data.accents, "accents").map((accent, i) =>
+            parseBlock(accent, i, "accents")
+          )
+        : [],
+    lineWeight,
+    lineColor,
+    background,
+    palette: parseDocumentPalette(data.palette, version, background, lineColor),
+    layout: parseLayout(data.layout, version),
+    rules: parseRules(data.rules, version),
+    notes:
+      version >= 2
+        ? expectArray(data.notes, "notes").map((note, i) => parseNote(note, i))
+        : tonesToNotes(
+            expectArray(data.tones, "tones").map((tone, i) =>
+              expectNumber(tone, `tones[${i}]`)
+            ),
+            TONE_DURATION
+          ),
+  };
+}
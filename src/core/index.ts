@@ -0,0 +1,24 @@
+// Environment-agnostic generation library shared by the Node CLIs and the
+// web bundle. Nothing in here may depend on node-canvas or the DOM.
+export * from "./analysis";
+export * from "./composition";
+export * from "./document";
+export * from "./layouts";
+export * from "./lines";
+export * from "./metadata";
+export * from "./midi";
+export * from "./palette";
+export * from "./params";
+export * from "./random";
+export * from "./render";
+export * from "./resolution";
+export * from "./rules";
+export * from "./session";
+export * from "./sonification";
+export * from "./svg";
+export * from "./synth";
+export * from "./tempo";
+export * from "./theory";
+export * from "./tones";
+export * from "./transitions";
+export * from "./voice";
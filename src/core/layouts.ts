@@ -0,0 +1,483 @@
+import { Block, ColoredBlock } from "./composition";
+import { GridLine, LineSegment, Split, frameLines } from "./lines";
+import { Palette, pickColor } from "./palette";
+import { Random, randInt } from "./random";
+
+// --- Layout Strategies ---
+
+export const LAYOUT_NAMES = [
+  "bisection",
+  "grid",
+  "boogie-woogie",
+  "lozenge",
+] as const;
+export type LayoutName = (typeof LAYOUT_NAMES)[number];
+
+/** Visible outline of the canvas. */
+export type CompositionShape = "rectangle" | "lozenge";
+
+export interface LayoutParams {
+  width: number;
+  height: number;
+  maxDepth: number;
+  minBlockSize: number;
+}
+
+export interface Layout {
+  blocks: Block[];
+  /** Split lines in creation order, including the frame if any. */
+  splits: Split[];
+}
+
+export interface LayoutStrategy {
+  name: LayoutName;
+  description: string;
+  shape: CompositionShape;
+  /** Partitions the canvas into blocks. */
+  generate(params: LayoutParams, random: Random): Layout;
+  /** Small colored segments placed on the styled lines. */
+  accents?(lines: GridLine[], palette: Palette, random: Random): ColoredBlock[];
+}
+
+// --- Recursive Bisection (Orthogonal Grid) ---
+
+/**
+ * Splits a block in two at a random point between 30% and 70% of its extent.
+ */
+function splitBlock(
+  block: Block,
+  vertical: boolean,
+  random: Random
+): [Block, Block, LineSegment] {
+  if (vertical) {
+    const splitPoint = Math.floor(
+      block.x + block.width * (random() * 0.4 + 0.3)
+    );
+    const line = {
+      x1: splitPoint,
+      y1: block.y,
+      x2: splitPoint,
+      y2: block.y + block.height,
+    };
+    return [
+      {
+        x: block.x,
+        y: block.y,
+        width: splitPoint - block.x,
+        height: block.height,
+      },
+      {
+        x: splitPoint,
+        y: block.y,
+        width: block.x + block.width - splitPoint,
+        height: block.height,
+      },
+      line,
+    ];
+  }
+
+  const splitPoint = Math.floor(
+    block.y + block.height * (random() * 0.4 + 0.3)
+  );
+  const line = {
+    x1: block.x,
+    y1: splitPoint,
+    x2: block.x + block.width,
+    y2: splitPoint,
+  };
+  return [
+    {
+      x: block.x,
+      y: block.y,
+      width: block.width,
+      height: splitPoint - block.y,
+    },
+    {
+      x: block.x,
+      y: splitPoint,
+      width: block.width,
+      height: block.y + block.height - splitPoint,
+    },
+    line,
+  ];
+}
+
+/**
+ * Recursively partitions a block into smaller orthogonal blocks.
+ * @param block The current block to split.
+ * @param depth The current recursion depth.
+ * @param maxDepth Depth at which splitting stops.
+ * @param minBlockSize Minimum dimension for a block to be split further.
+ * @param random The seeded random source driving every split decision.
+ * @param splits Optional list receiving every split line, in creation order.
+ * @returns An array of final, non-splittable blocks.
+ */
+export function generateBlocks(
+  block: Block,
+  depth: number,
+  maxDepth: number,
+  minBlockSize: number,
+  random: Random,
+  splits?: Split[]
+): Block[] {
+  // Stop condition 1: Max depth reached
+  if (depth >= maxDepth) {
+    return [block];
+  }
+
+  // Stop condition 2: Block is too small or randomly stops splitting
+  if (
+    (block.width < minBlockSize && block.height < minBlockSize) ||
+    (random() < 0.2 && depth > 0)
+  ) {
+    return [block];
+  }
+
+  // Favor splitting the longest side
+  let vertical: boolean;
+  if (block.height > block.width && block.height > minBlockSize) {
+    vertical = false;
+  } else if (block.width > block.height && block.width > minBlockSize) {
+    vertical = true;
+  } else if (block.width > minBlockSize && block.height > minBlockSize) {
+    // Near-square block: pick the direction at random
+    vertical = random() < 0.5;
+  } else {
+    return [block];
+  }
+
+  const [blockA, blockB, line] = splitBlock(block, vertical, random);
+  splits?.push({ ...line, depth });
+  return [
+    ...generateBlocks(
+      blockA,
+      depth + 1,
+      maxDepth,
+      minBlockSize,
+      random,
+      splits
+    ),
+    ...generateBlocks(
+      blockB,
+      depth + 1,
+      maxDepth,
+      minBlockSize,
+      random,
+      splits
+    ),
+  ];
+}
+
+// --- Full-span Grid ---
+
+/**
+ * Picks up to `count` sorted positions in (start, start + length), at least
+ * `minGap` apart from each other and from both ends.
+ */
+function placeLines(
+  start: number,
+  length: number,
+  count: number,
+  minGap: number,
+  random: Random
+): number[] {
+  const positions: number[] = [];
+  const span = length - 2 * minGap;
+  if (span <= 0) return positions;
+
+  for (let attempt = 0; attempt < count * 10; attempt++) {
+    if (positions.length >= count) break;
+    const position = Math.floor(start + minGap + random() * span);
+    if (positions.every((other) => Math.abs(other - position) >= minGap)) {
+      positions.push(position);
+    }
+  }
+
+  return positions.sort((a, b) => a - b);
+}
+
+/**
+ * Lines crossing the whole region, as in the 1920s compositions. Blocks are
+ * the cells between them.
+ */
+function fullSpanGrid(
+  region: Block,
+  countX: number,
+  countY: number,
+  minGap: number,
+  random: Random
+): Layout {
+  const xs = placeLines(region.x, region.width, countX, minGap, random);
+  const ys = placeLines(region.y, region.height, countY, minGap, random);
+
+  const splits: Split[] = [
+    ...xs.map((x) => ({
+      x1: x,
+      y1: region.y,
+      x2: x,
+      y2: region.y + region.height,
+      depth: 0,
+    })),
+    ...ys.map((y) => ({
+      x1: region.x,
+      y1: y,
+      x2: region.x + region.width,
+      y2: y,
+      depth: 0,
+    })),
+  ];
+
+  const columns = [region.x, ...xs, region.x + region.width];
+  const rows = [region.y, ...ys, region.y + region.height];
+  const blocks: Block[] = [];
+  for (let row = 0; row < rows.length - 1; row++) {
+    for (let column = 0; column < columns.length - 1; column++) {
+      blocks.push({
+        x: columns[column],
+        y: rows[row],
+        width: columns[column + 1] - columns[column],
+        height: rows[row + 1] - rows[row],
+      });
+    }
+  }
+
+  return { blocks, splits };
+}
+
+/**
+ * Number of full-span lines along an axis, scaled by its share of the
+ * longer side.
+ */
+const lineCount = (depth: number, extent: number, longest: number) =>
+  Math.max(1, Math.round((depth * extent) / longest));
+
+// --- Strategies ---
+
+const bisection: LayoutStrategy = {
+  name: "bisection",
+  description: "Recursive splitting of blocks, 30-70% at a time.",
+  shape: "rectangle",
+  generate: ({ width, height, maxDepth, minBlockSize }, random) => {
+    const splits = frameLines(width, height);
+    const blocks = generateBlocks(
+      { x: 0, y: 0, width, height },
+      0,
+      maxDepth,
+      minBlockSize,
+      random,
+      splits
+    );
+    return { blocks, splits };
+  },
+};
+
+const grid: LayoutStrategy = {
+  name: "grid",
+  description: "Lines crossing the whole canvas, as in the 1920s works.",
+  shape: "rectangle",
+  generate: ({ width, height, maxDepth, minBlockSize }, random) => {
+    const longest = Math.max(width, height);
+    const layout = fullSpanGrid(
+      { x: 0, y: 0, width, height },
+      randInt(random, 1, lineCount(maxDepth, width, longest)),
+      randInt(random, 1, lineCount(maxDepth, height, longest)),
+      minBlockSize / 2,
+      random
+    );
+    return {
+      ...layout,
+      splits: [...frameLines(width, height), ...layout.splits],
+    };
+  },
+};
+
+// Boogie-Woogie: accent size and spacing, relative to the line weight
+const ACCENT_SPACING_MIN = 2;
+const ACCENT_SPACING_MAX = 6;
+// Share of accents painted in a neutral gray rather than a palette color
+const ACCENT_GRAY_CHANCE = 0.25;
+const ACCENT_GRAY = "#BEBEBE";
+
+const boogieWoogie: LayoutStrategy = {
+  name: "boogie-woogie",
+  description: "A dense grid of lines broken into small colored segments.",
+  shape: "rectangle",
+  generate: ({ width, height, maxDepth, minBlockSize }, random) => {
+    // Twice as many lines, packed closer than in the plain grid
+    const longest = Math.max(width, height);
+    return fullSpanGrid(
+      { x: 0, y: 0, width, height },
+      randInt(random, maxDepth, 2 * lineCount(maxDepth, width, longest)),
+      randInt(
+        random,
+        Math.ceil(maxDepth / 2),
+        2 * lineCount(maxDepth, height, longest)
+      ),
+      minBlockSize / 3,
+      random
+    );
+  },
+  accents: (lines, palette, random) => {
+    const accents: ColoredBlock[] = [];
+
+    for (const line of lines) {
+      const horizontal = line.y1 === line.y2;
+      const size = line.weight;
+      const end = horizontal ? line.x2 : line.y2;
+      let position = (horizontal ? line.x1 : line.y1) + size * random();
+
+      while (position + size <= end) {
+        const color =
+          random() < ACCENT_GRAY_CHANCE
+            ? ACCENT_GRAY
+            : pickColor(palette, random);
+        accents.push(
+          horizontal
+            ? {
+                x: position,
+                y: line.y1 - size / 2,
+                width: size,
+                height: size,
+                color,
+              }
+            : {
+                x: line.x1 - size / 2,
+                y: position,
+                width: size,
+                height: size,
+                color,
+              }
+        );
+        position +=
+          size *
+          (1 +
+            ACCENT_SPACING_MIN +
+            random() * (ACCENT_SPACING_MAX - ACCENT_SPACING_MIN));
+      }
+    }
+
+    return accents;
+  },
+};
+
+const lozenge: LayoutStrategy = {
+  name: "lozenge",
+  description: "A diamond (45°-rotated square) canvas with an orthogonal grid.",
+  shape: "lozenge",
+  generate: ({ width, height, maxDepth, minBlockSize }, random) => {
+    // Bisect the bounding square of the diamond; renderers clip to it
+    const { x, y, size } = lozengeBounds(width, height);
+    const splits: Split[] = [];
+    const blocks = generateBlocks(
+      { x, y, width: size, height: size },
+      0,
+      maxDepth,
+      minBlockSize,
+      random,
+      splits
+    );
+    return { blocks, splits };
+  },
+};
+
+export const LAYOUTS: Record<LayoutName, LayoutStrategy> = {
+  bisection,
+  grid,
+  "boogie-woogie": boogieWoogie,
+  lozenge,
+};
+
+export function isLayoutName(value: string): value is LayoutName {
+  return (LAYOUT_NAMES as readonly string[]).includes(value);
+}
+
+/**
+ * The square whose inscribed diamond is the visible lozenge canvas: centered,
+ * with the diamond's corners touching the shorter canvas sides.
+ */
+export function lozengeBounds(
+  width: number,
+  height: number
+): { x: number; y: number; size: number } {
+  const size = Math.min(width, height);
+  return {
+    x: Math.round((width - size) / 2),
+    y: Math.round((height - size) / 2),
+    size,
+  };
+}
+
+/**
+ * Corners of the lozenge (top, right, bottom, left), i.e. the midpoints of
+ * the sides of its bounding square.
+ */
+export function lozengeCorners(
+  width: number,
+  height: number
+): [number, number][] {
+  const { x, y, size } = lozengeBounds(width, height);
+  const half = size / 2;
+  return [
+    [x + half, y],
+    [x + size, y + half],
+    [x + half, y + size],
+    [x, y + half],
+  ];
+}
+
+/**
+ * The part of a block inside the visible canvas: all of it on a rectangle,
+ * what the diamond shows of it on a lozenge.
+ */
+export function visibleArea(
+  block: Block,
+  shape: CompositionShape,
+  width: number,
+  height: number
+): number {
+  if (shape === "rectangle") {
+    return block.width * block.height;
+  }
+  // Clip the diamond to the block, edge by edge, and measure what is left
+  // (each edge as the signed distance of a point inside it)
+  const edges: ((point: [number, number]) => number)[] = [
+    ([x]) => x - block.x,
+    ([x]) => block.x + block.width - x,
+    ([, y]) => y - block.y,
+    ([, y]) => block.y + block.height - y,
+  ];
+  let polygon = lozengeCorners(width, height);
+  for (const distance of edges) {
+    const clipped: [number, number][] = [];
+    polygon.forEach((point, i) => {
+      const next = polygon[(i + 1) % polygon.length];
+      const [d1, d2] = [distance(point), distance(next)];
+      if (d1 >= 0) clipped.push(point);
+      if (d1 >= 0 !== d2 >= 0) {
+        const t = d1 / (d1 - d2);
+        clipped.push([
+          point[0] + t * (next[0] - point[0]),
+          point[1] + t * (next[1] - point[1]),
+        ]);
+      }
+    });
+    polygon = clipped;
+  }
+  // Shoelace formula
+  return Math.abs(
+    polygon.reduce((sum, [x1, y1], i) => {
+      const [x2, y2] = polygon[(i + 1) % polygon.length];
+      return sum + x1 * y2 - x2 * y1;
+    }, 0) / 2
+  );
+}
+
+/** The area of the visible canvas: the whole of it, or the diamond's. */
+export function visibleCanvasArea(
+  shape: CompositionShape,
+  width: number,
+  height: number
+): number {
+  const { size } = lozengeBounds(width, height);
+  return shape === "rectangle" ? width * height : (size * size) / 2;
+}
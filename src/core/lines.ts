@@ -0,0 +1,284 @@
+import { Block } from "./composition";
+import { Random } from "./random";
+
+export interface LineSegment {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+/** A split line as created by the layout, in creation order. */
+export interface Split extends LineSegment {
+  /** Recursion depth of the split; 0 for the first split and the frame. */
+  depth: number;
+}
+
+/** A drawable grid line with its own thickness. */
+export interface GridLine extends Split {
+  weight: number;
+}
+
+export interface LineStyle {
+  /** Random variation of each line's weight, 0 (uniform) to 1 (±100%). */
+  variance: number;
+  /** Weight lost per recursion level, 0 (none) to 1. */
+  falloff: number;
+  /** Chance (0.0 to 1.0) a line is drawn as a thin double line. */
+  doubleLineChance: number;
+  /** Chance (0.0 to 1.0) each end touching the canvas edge stops short. */
+  partialLineChance: number;
+}
+
+export const UNIFORM_LINES: LineStyle = {
+  variance: 0,
+  falloff: 0,
+  doubleLineChance: 0,
+  partialLineChance: 0,
+};
+
+/**
+ * Fills unset (or explicitly undefined) fields with the uniform defaults.
+ */
+export function resolveLineStyle(style: Partial<LineStyle> = {}): LineStyle {
+  return {
+    variance: style.variance ?? UNIFORM_LINES.variance,
+    falloff: style.falloff ?? UNIFORM_LINES.falloff,
+    doubleLineChance: style.doubleLineChance ?? UNIFORM_LINES.doubleLineChance,
+    partialLineChance:
+      style.partialLineChance ?? UNIFORM_LINES.partialLineChance,
+  };
+}
+
+// Double lines: each stroke's share of the weight, and the distance of each
+// stroke's center from the original line, both relative to the weight
+const DOUBLE_LINE_WEIGHT = 0.5;
+const DOUBLE_LINE_OFFSET = 0.9;
+
+// How far a partial line stops short of the edge, relative to the canvas
+const PARTIAL_LINE_MARGIN = 0.04;
+
+type Intervals = Map<number, [number, number][]>;
+
+function addInterval(
+  intervals: Intervals,
+  position: number,
+  start: number,
+  end: number
+): void {
+  const list = intervals.get(position) ?? [];
+  list.push([start, end]);
+  intervals.set(position, list);
+}
+
+/**
+ * Merges overlapping or touching intervals that share the same position.
+ */
+function mergeIntervals(intervals: Intervals): [number, number, number][] {
+  const merged: [number, number, number][] = [];
+  const positions = [...intervals.keys()].sort((a, b) => a - b);
+
+  for (const position of positions) {
+    const list = intervals.get(position)!.sort((a, b) => a[0] - b[0]);
+    let [start, end] = list[0];
+    for (const [nextStart, nextEnd] of list.slice(1)) {
+      if (nextStart <= end) {
+        end = Math.max(end, nextEnd);
+      } else {
+        merged.push([position, start, end]);
+        [start, end] = [nextStart, nextEnd];
+      }
+    }
+    merged.push([position, start, end]);
+  }
+
+  return merged;
+}
+
+/**
+ * Converts block outlines into the grid lines they form. Shared edges of
+ * neighbouring blocks collapse into one segment, and collinear edges are
+ * merged, so every stretch of the grid is drawn exactly once.
+ */
+export function extractGridLines(blocks: Block[]): LineSegment[] {
+  const horizontal: Intervals = new Map();
+  const vertical: Intervals = new Map();
+
+  for (const block of blocks) {
+    const right = block.x + block.width;
+    const bottom = block.y + block.height;
+    addInterval(horizontal, block.y, block.x, right);
+    addInterval(horizontal, bottom, block.x, right);
+    addInterval(vertical, block.x, block.y, bottom);
+    addInterval(vertical, right, block.y, bottom);
+  }
+
+  return [
+    ...mergeIntervals(horizontal).map(([y, x1, x2]) => ({
+      x1,
+      y1: y,
+      x2,
+      y2: y,
+    })),
+    ...mergeIntervals(vertical).map(([x, y1, y2]) => ({
+      x1: x,
+      y1,
+      x2: x,
+      y2,
+    })),
+  ];
+}
+
+/**
+ * The four canvas borders, drawn half-visible like the original block
+ * outlines.
+ */
+export function frameLines(width: number, height: number): Split[] {
+  return [
+    { x1: 0, y1: 0, x2: width, y2: 0, depth: 0 },
+    { x1: 0, y1: height, x2: width, y2: height, depth: 0 },
+    { x1: 0, y1: 0, x2: 0, y2: height, depth: 0 },
+    { x1: width, y1: 0, x2: width, y2: height, depth: 0 },
+  ];
+}
+
+export const isFrameLine = (line: LineSegment, width: number, height: number) =>
+  line.y1 === line.y2
+    ? line.y1 === 0 || line.y1 === height
+    : line.x1 === 0 || line.x1 === width;
+
+/**
+ * Pulls the ends of a line that touch the canvas edge inwards, each with
+ * probability `chance`. Lines too short to stay readable are left alone.
+ */
+export function shortenAtCanvasEdge<T extends LineSegment>(
+  line: T,
+  width: number,
+  height: number,
+  chance: number,
+  random: Random
+): T {
+  const horizontal = line.y1 === line.y2;
+  const limit = horizontal ? width : height;
+  const margin = Math.round(Math.min(width, height) * PARTIAL_LINE_MARGIN);
+
+  let start = horizontal ? line.x1 : line.y1;
+  let end = horizontal ? line.x2 : line.y2;
+  if (end - start > margin * 3) {
+    if (start === 0 && random() < chance) start += margin;
+    if (end === limit && random() < chance) end -= margin;
+  }
+
+  return horizontal
+    ? { ...line, x1: start, x2: end }
+    : { ...line, y1: start, y2: end };
+}
+
+interface StyledSplit {
+  line: Split;
+  weight: number;
+  /** Distance of each stroke from the center for double lines, else 0. */
+  doubleOffset: number;
+}
+
+/**
+ * Pulls back line ends that meet a double line, so they stop at its near
+ * stroke instead of poking into the gap between the two strokes.
+ */
+function meetDoubleLines(styled: StyledSplit[]): void {
+  const doubles = styled.filter((entry) => entry.doubleOffset > 0);
+
+  for (const entry of styled) {
+    const line = { ...entry.line };
+    const horizontal = line.y1 === line.y2;
+
+    for (const { line: other, doubleOffset } of doubles) {
+      if ((other.y1 === other.y2) === horizontal) continue;
+
+      // `other` is perpendicular: vertical when `line` is horizontal
+      const position = horizontal ? other.x1 : other.y1;
+      const [from, to] = horizontal
+        ? [other.y1, other.y2]
+        : [other.x1, other.x2];
+      const across = horizontal ? line.y1 : line.x1;
+      if (across < from || across > to) continue;
+
+      if (horizontal) {
+        if (line.x1 === position) line.x1 += doubleOffset;
+        if (line.x2 === position) line.x2 -= doubleOffset;
+      } else {
+        if (line.y1 === position) line.y1 += doubleOffset;
+        if (line.y2 === position) line.y2 -= doubleOffset;
+      }
+    }
+
+    entry.line = line;
+  }
+}
+
+/**
+ * Turns split lines into drawable grid lines: assigns each its own weight,
+ * shortens some at the canvas edge and doubles some.
+ */
+export function styleGridLines(
+  splits: Split[],
+  baseWeight: number,
+  style: LineStyle,
+  width: number,
+  height: number,
+  random: Random
+): GridLine[] {
+  const styled: StyledSplit[] = splits.map((split) => {
+    const weight = Math.max(
+      1,
+      Math.round(
+        baseWeight *
+          Math.pow(1 - style.falloff, split.depth) *
+          (1 + style.variance * (random() * 2 - 1))
+      )
+    );
+
+    if (isFrameLine(split, width, height)) {
+      return { line: split, weight, doubleOffset: 0 };
+    }
+
+    const line = shortenAtCanvasEdge(
+      split,
+      width,
+      height,
+      style.partialLineChance,
+      random
+    );
+    const doubleOffset =
+      random() < style.doubleLineChance
+        ? Math.round(weight * DOUBLE_LINE_OFFSET)
+        : 0;
+    return { line, weight, doubleOffset };
+  });
+
+  meetDoubleLines(styled);
+
+  return styled.flatMap(({ line, weight, doubleOffset }): GridLine[] => {
+    if (doubleOffset === 0) {
+      return [{ ...line, weight }];
+    }
+
+    const strokeWeight = Math.max(1, Math.round(weight * DOUBLE_LINE_WEIGHT));
+    const horizontal = line.y1 === line.y2;
+    return [-doubleOffset, doubleOffset].map((delta) =>
+      horizontal
+        ? {
+            ...line,
+            y1: line.y1 + delta,
+            y2: line.y2 + delta,
+            weight: strokeWeight,
+          }
+        : {
+            ...line,
+            x1: line.x1 + delta,
+            x2: line.x2 + delta,
+            weight: strokeWeight,
+          }
+    );
+  });
+}
@@ -0,0 +1,106 @@
+import { Composition, CompositionParams } from "./composition";
+import { DEFAULT_PALETTE } from "./palette";
+
+// --- Image Metadata (generation parameters embedded in PNG and SVG files) ---
+
+/** Names the generator in the metadata of every image it writes. */
+export const METADATA_SOFTWARE = "mondrian-generator";
+
+/**
+ * The parameters a composition was generated with, by name (`Seed`,
+ * `Depth`, `ColorChance`, ...), as text; unset optional parameters are
+ * left out.
+ */
+export type ImageMetadata = Record<string, string>;
+
+// Unset values are left out
+const toMetadata = (entries: [string, unknown][]): ImageMetadata =>
+  Object.fromEntries(
+    entries
+      .filter(([, value]) => value !== undefined && value !== "")
+      .map(([name, value]) => [name, String(value)])
+  );
+
+/**
+ * The metadata embedded in the image files of a composition. It holds no
+ * timestamp, so the same parameters always give the same bytes.
+ */
+export function compositionMetadata(params: CompositionParams): ImageMetadata {
+  const { lineStyle = {} } = params;
+  const entries: [string, unknown][] = [
+    ["Software", METADATA_SOFTWARE],
+    ["Seed", params.seed],
+    ["Width", params.width],
+    ["Height", params.height],
+    ["Depth", params.maxDepth],
+    ["ColorChance", params.colorChance],
+    ["LineWeight", params.lineWeight],
+    ["Palette", (params.palette ?? DEFAULT_PALETTE).name],
+    ["LineColor", params.lineColor],
+    ["Layout", params.layout ?? "bisection"],
+    ["Rules", params.rules?.join(",")],
+    ["LineVariance", lineStyle.variance],
+    ["LineFalloff", lineStyle.falloff],
+    ["DoubleLines", lineStyle.doubleLineChance],
+    ["PartialLines", lineStyle.partialLineChance],
+  ];
+  return toMetadata(entries);
+}
+
+/**
+ * The metadata embedded in the image files of a composition re-rendered
+ * from its document, which keeps the result rather than the drawn
+ * parameters: no depth, color chance or line style.
+ */
+export function documentMetadata(composition: Composition): ImageMetadata {
+  return toMetadata([
+    ["Software", METADATA_SOFTWARE],
+    ["Seed", composition.seed],
+    ["Width", composition.width],
+    ["Height", composition.height],
+    ["LineWeight", composition.lineWeight],
+    ["Palette", composition.palette.name],
+    ["LineColor", composition.lineColor],
+    ["Layout", composition.layout],
+    ["Rules", composition.rules.join(",")],
+  ]);
+}
+
+// SVG files carry the metadata as JSON in a <metadata> element
+const SVG_METADATA_ID = "mondrian-params";
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const unescapeXml = (text: string) =>
+  text.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&amp;/g, "&");
+
+/** The `<metadata>` element embedding `metadata` in an SVG document. */
+export function svgMetadataElement(metadata: ImageMetadata): string {
+  return `<metadata id="${SVG_METADATA_ID}">${escapeXml(
+    JSON.stringify(metadata)
+  )}</metadata>`;
+}
+
+/**
+ * Reads back the metadata embedded by `svgMetadataElement`.
+ * @returns null if the SVG has none.
+ */
+export function readSvgMetadata(svg: string): ImageMetadata | null {
+  const match = new RegExp(
+    `<metadata id="${SVG_METADATA_ID}">([^<]*)</metadata>`
+  ).exec(svg);
+  if (!match) {
+    return null;
+  }
+  try {
+    const metadata = JSON.parse(unescapeXml(match[1]));
+    return typeof metadata === "object" && metadata !== null
+      ? Object.fromEntries(
+          Object.entries(metadata).map(([name, value]) => [name, String(value)])
+        )
+      : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,181 @@
+import { Note } from "./sonification";
+
+// --- MIDI (controllers, external synths and Standard MIDI Files) ---
+
+/** What a controller's knobs and faders can change. */
+export const MIDI_CONTROL_NAMES = [
+  "volume",
+  "speed",
+  "depth",
+  "colorChance",
+  "lineWeight",
+] as const;
+export type MidiControlName = (typeof MIDI_CONTROL_NAMES)[number];
+
+/**
+ * Control change numbers mapped to each control: channel volume (7) and the
+ * sound controllers (70-73) most controllers send from their knobs.
+ */
+export const MIDI_CONTROLS: Record<number, MidiControlName> = {
+  7: "volume",
+  70: "speed",
+  71: "depth",
+  72: "colorChance",
+  73: "lineWeight",
+};
+
+export type MidiMessage =
+  | { type: "noteon"; channel: number; note: number; velocity: number }
+  | { type: "noteoff"; channel: number; note: number }
+  | { type: "control"; channel: number; controller: number; value: number };
+
+/**
+ * Decodes a channel message; other messages (clock, sysex...) give null.
+ * Values and velocities are scaled to 0-1.
+ */
+export function parseMidiMessage(data: ArrayLike<number>): MidiMessage | null {
+  const [status, data1, data2] = Array.from(data);
+  const channel = status & 0x0f;
+  switch (status & 0xf0) {
+    case 0x90:
+      // A note-on without velocity is a note-off
+      return data2 > 0
+        ? { type: "noteon", channel, note: data1, velocity: data2 / 127 }
+        : { type: "noteoff", channel, note: data1 };
+    case 0x80:
+      return { type: "noteoff", channel, note: data1 };
+    case 0xb0:
+      return {
+        type: "control",
+        channel,
+        controller: data1,
+        value: data2 / 127,
+      };
+    default:
+      return null;
+  }
+}
+
+/** Frequency of a MIDI note number (A4 = 69 = 440 Hz). */
+export function midiToFrequency(note: number): number {
+  return 440 * Math.pow(2, (note - 69) / 12);
+}
+
+/** Nearest MIDI note number of a frequency, within 0-127. */
+export function frequencyToMidi(frequency: number): number {
+  const note = Math.round(69 + 12 * Math.log2(frequency / 440));
+  return Math.min(127, Math.max(0, note));
+}
+
+/**
+ * MIDI velocity (1-127) of each note: the loudest note of a composition
+ * plays at full velocity.
+ */
+export function noteVelocities(notes: Note[]): number[] {
+  const loudest = Math.max(...notes.map((note) => note.amplitude));
+  return notes.map((note) =>
+    Math.max(1, Math.round((127 * note.amplitude) / loudest))
+  );
+}
+
+/**
+ * Notes played on a MIDI keyboard replace the pitches of the composition's
+ * notes, in turn; without pitches the notes are returned as is.
+ */
+export function withPitches(notes: Note[], frequencies: number[]): Note[] {
+  if (frequencies.length === 0) {
+    return notes;
+  }
+  return notes.map((note, i) => ({
+    ...note,
+    frequency: frequencies[i % frequencies.length],
+  }));
+}
+
+// --- Standard MIDI Files ---
+
+// Ticks per quarter note, at the default 120 BPM: 960 ticks per second
+const TICKS_PER_QUARTER = 480;
+const MICROSECONDS_PER_QUARTER = 500000;
+const TICKS_PER_SECOND = (TICKS_PER_QUARTER * 1e6) / MICROSECONDS_PER_QUARTER;
+
+/** A variable-length quantity, as MIDI files store delta times. */
+function variableLength(value: number): number[] {
+  const bytes = [value & 0x7f];
+  for (value >>= 7; value > 0; value >>= 7) {
+    bytes.unshift((value & 0x7f) | 0x80);
+  }
+  return bytes;
+}
+
+const uint32 = (value: number) => [
+  (value >>> 24) & 0xff,
+  (value >>> 16) & 0xff,
+  (value >>> 8) & 0xff,
+  value & 0xff,
+];
+
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0));
+
+export interface MidiFileOptions {
+  /** Length of each composition's slot, in seconds. */
+  duration: number;
+  /** Track name. Default: "Mondrian". */
+  name?: string;
+  /** Channel 0-15. Default: 0. */
+  channel?: number;
+}
+
+/**
+ * Encodes a session's notes as a Standard MIDI File (format 0): each
+ * composition's notes in its own `duration`-long slot, one after the other.
+ */
+export function encodeMidiFile(
+  segments: Note[][],
+  options: MidiFileOptions
+): Uint8Array {
+  const channel = options.channel ?? 0;
+  const events: { tick: number; order: number; data: number[] }[] = [];
+
+  segments.forEach((notes, index) => {
+    const velocities = noteVelocities(notes);
+    notes.forEach((note, i) => {
+      const pitch = frequencyToMidi(note.frequency);
+      const start = index * options.duration + note.start;
+      const on = Math.round(start * TICKS_PER_SECOND);
+      const off = Math.round((start + note.duration) * TICKS_PER_SECOND);
+      // Note-offs go first when events share a tick
+      events.push({
+        tick: on,
+        order: 1,
+        data: [0x90 | channel, pitch, velocities[i]],
+      });
+      events.push({ tick: off, order: 0, data: [0x80 | channel, pitch, 0] });
+    });
+  });
+  events.sort((a, b) => a.tick - b.tick || a.order - b.order);
+
+  const name = ascii(options.name ?? "Mondrian");
+  const track: number[] = [
+    // Track name and tempo
+    ...[0, 0xff, 0x03, ...variableLength(name.length), ...name],
+    ...[0, 0xff, 0x51, 0x03],
+    ...uint32(MICROSECONDS_PER_QUARTER).slice(1),
+  ];
+  let tick = 0;
+  for (const event of events) {
+    track.push(...variableLength(event.tick - tick), ...event.data);
+    tick = event.tick;
+  }
+  const end = Math.round(segments.length * options.duration * TICKS_PER_SECOND);
+  track.push(...variableLength(Math.max(0, end - tick)), 0xff, 0x2f, 0x00);
+
+  return new Uint8Array([
+    ...ascii("MThd"),
+    ...uint32(6),
+    ...[0, 0, 0, 1, TICKS_PER_QUARTER >> 8, TICKS_PER_QUARTER & 0xff],
+    ...ascii("MTrk"),
+    ...uint32(track.length),
+    ...track,
+  ]);
+}
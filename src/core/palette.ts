@@ -0,0 +1,153 @@
+import { Random } from "./random";
+
+// --- Palettes ---
+
+export interface PaletteColor {
+  color: string;
+  /** Relative probability of the color being picked. */
+  weight: number;
+}
+
+export interface Palette {
+  name: string;
+  colors: PaletteColor[];
+  background: string;
+  lineColor: string;
+}
+
+const uniform = (...colors: string[]): PaletteColor[] =>
+  colors.map((color) => ({ color, weight: 1 }));
+
+export const PALETTES: Record<string, Palette> = {
+  // Pure De Stijl primaries
+  classic: {
+    name: "classic",
+    colors: uniform("#FF0000", "#0000FF", "#FFFF00"), // Red, Blue, Yellow
+    background: "#FFFFFF",
+    lineColor: "#000000",
+  },
+  // Softer blue plus a dark gray accent
+  "de-stijl-gray": {
+    name: "de-stijl-gray",
+    colors: uniform("#FF0000", "#225095", "#FFFF00", "#30303a"),
+    background: "#FFFFFF",
+    lineColor: "#000000",
+  },
+  // Approximations of the cadmium red, ultramarine and cadmium yellow Mondrian
+  // used in the 1930s, on an off-white ground. Red dominates his works.
+  "pigments-1930s": {
+    name: "pigments-1930s",
+    colors: [
+      { color: "#C8312B", weight: 3 },
+      { color: "#1F3A8A", weight: 2 },
+      { color: "#F2C53D", weight: 2 },
+    ],
+    background: "#F1EEE4",
+    lineColor: "#1B1B1B",
+  },
+  grayscale: {
+    name: "grayscale",
+    colors: uniform("#D4D4D4", "#8C8C8C", "#3A3A3A"),
+    background: "#FFFFFF",
+    lineColor: "#000000",
+  },
+};
+
+export const DEFAULT_PALETTE = PALETTES.classic;
+
+export function getPalette(name: string): Palette | undefined {
+  return Object.prototype.hasOwnProperty.call(PALETTES, name)
+    ? PALETTES[name]
+    : undefined;
+}
+
+/**
+ * Picks a palette color with probability proportional to its weight.
+ * Uses a single random number; with equal weights this matches a uniform
+ * index pick.
+ */
+export function pickColor(palette: Palette, random: Random): string {
+  const total = palette.colors.reduce((sum, entry) => sum + entry.weight, 0);
+  let value = random() * total;
+  for (const entry of palette.colors) {
+    value -= entry.weight;
+    if (value < 0) {
+      return entry.color;
+    }
+  }
+  return palette.colors[palette.colors.length - 1].color;
+}
+
+// --- User-defined Palettes ---
+
+function fail(message: string): never {
+  throw new Error(`Invalid palette: ${message}`);
+}
+
+// Hex (#rgb, #rgba, #rrggbb, #rrggbbaa), rgb()/rgba() or a color name
+const COLOR_FORMS = [
+  /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i,
+  /^rgba?\(\s*[\d.%]+(\s*[,\s/]\s*[\d.%]+){2,3}\s*\)$/i,
+  /^[a-z]+$/i,
+];
+
+/**
+ * Whether `value` is a CSS color in a form the generator accepts: hex,
+ * `rgb()`/`rgba()` or a color name such as `crimson`.
+ */
+export function isColor(value: string): boolean {
+  return COLOR_FORMS.some((form) => form.test(value));
+}
+
+function parseColor(value: unknown, field: string): string {
+  if (typeof value !== "string" || !isColor(value.trim())) {
+    fail(
+      `"${field}" must be a CSS color: hex (#FF0000), rgb(255, 0, 0) or a color name.`
+    );
+  }
+  return value.trim();
+}
+
+function parsePaletteColor(value: unknown, index: number): PaletteColor {
+  const field = `colors[${index}]`;
+  if (typeof value === "string") {
+    return { color: parseColor(value, field), weight: 1 };
+  }
+
+  const entry = (value ?? {}) as Record<string, unknown>;
+  const weight = entry.weight ?? 1;
+  if (typeof weight !== "number" || !Number.isFinite(weight) || weight <= 0) {
+    fail(`"${field}.weight" must be a positive number.`);
+  }
+  return { color: parseColor(entry.color, `${field}.color`), weight };
+}
+
+/**
+ * Validates a user-defined palette. Colors may be plain strings (weight 1)
+ * or `{ color, weight }` objects; background and line color default to
+ * white and black.
+ * @throws Error describing the first invalid field.
+ */
+export function parsePalette(data: unknown, fallbackName = "custom"): Palette {
+  if (typeof data !== "object" || data === null) {
+    fail("expected a JSON object.");
+  }
+  const palette = data as Record<string, unknown>;
+
+  if (!Array.isArray(palette.colors) || palette.colors.length === 0) {
+    fail(`"colors" must be a non-empty array.`);
+  }
+
+  return {
+    name: typeof palette.name === "string" ? palette.name : fallbackName,
+    colors: palette.colors.map(parsePaletteColor),
+    background:
+      palette.background === undefined
+        ? "#FFFFFF"
+        : parseColor(palette.background, "background"),
+    lineColor:
+      palette.lineColor === undefined
+        ? "#000000"
+        : parseColor(palette.lineColor, "lineColor"),
+  };
+}
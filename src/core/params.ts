@@ -0,0 +1,115 @@
+import { CompositionParams } from "./composition";
+import { LayoutName } from "./layouts";
+import { LineStyle } from "./lines";
+import { DEFAULT_PALETTE, Palette } from "./palette";
+import { Random, createRandom, deriveSeed, randFloat, randInt } from "./random";
+import { relativeScale } from "./resolution";
+import { RuleName } from "./rules";
+import { SonificationName } from "./sonification";
+
+// --- Composition Settings (parameters fixed, or drawn per seed) ---
+
+/** Values drawn per composition from `min` to `max`; equal for a fixed value. */
+export interface ParamRange {
+  min: number;
+  max: number;
+}
+
+/** The parameters drawn per seed unless fixed. */
+export type DrawnParam = "depth" | "colorChance" | "lineWeight";
+
+/** Allowed values; line weights are in pixels at 4K. */
+export const PARAM_LIMITS: Record<DrawnParam, { min: number; max?: number }> = {
+  depth: { min: 1, max: 10 },
+  colorChance: { min: 0, max: 1 },
+  lineWeight: { min: 5 },
+};
+
+/** Drawn per composition when not given. */
+export const DEFAULT_PARAM_RANGES: Record<DrawnParam, ParamRange> = {
+  depth: { min: 4, max: 6 },
+  colorChance: { min: 0.2, max: 0.4 },
+  lineWeight: { min: 25, max: 60 },
+};
+
+export interface CompositionSettings {
+  /** Max split depth. */
+  depth: ParamRange;
+  /** Chance a block is colored. */
+  colorChance: ParamRange;
+  /** Line weight in pixels at 4K. */
+  lineWeight: ParamRange;
+  palette: Palette;
+  lineColor?: string;
+  rules: RuleName[];
+  lineStyle: Partial<LineStyle>;
+  layout: LayoutName;
+  /** Mapping from each composition to the notes in its document. */
+  sonification: SonificationName;
+}
+
+/** Every parameter drawn from its default range, nothing else set. */
+export const DEFAULT_SETTINGS: CompositionSettings = {
+  ...DEFAULT_PARAM_RANGES,
+  palette: DEFAULT_PALETTE,
+  rules: [],
+  lineStyle: {},
+  layout: "bisection",
+  sonification: "timbre",
+};
+
+/**
+ * The parameters of the composition for `seed` at a size: fixed values as
+ * given, ranges drawn from the seed's own "params" stream, so fixing a
+ * parameter never changes the layout or colors of a given seed. Every
+ * parameter takes its draw even when fixed, so fixing (or sweeping) one
+ * leaves the others' draws alone.
+ */
+export function compositionParams(
+  seed: number,
+  width: number,
+  height: number,
+  settings: CompositionSettings
+): CompositionParams {
+  const random = createRandom(deriveSeed(seed, "params"));
+  const draw = (
+    { min, max }: ParamRange,
+    pick: (random: Random, min: number, max: number) => number
+  ) => {
+    const value = pick(random, min, max);
+    return min === max ? min : value;
+  };
+  const maxDepth = draw(settings.depth, randInt);
+  const colorChance = draw(settings.colorChance, randFloat);
+  const lineWeight = draw(settings.lineWeight, randInt);
+
+  return {
+    width,
+    height,
+    seed,
+    maxDepth,
+    colorChance,
+    // Line weights are tuned for 4K
+    lineWeight: Math.max(
+      1,
+      Math.round(lineWeight * relativeScale(width, height))
+    ),
+    palette: settings.palette,
+    lineColor: settings.lineColor,
+    rules: settings.rules,
+    lineStyle: settings.lineStyle,
+    layout: settings.layout,
+  };
+}
+
+/**
+ * The parameters of the composition for `seed` with `DEFAULT_SETTINGS`:
+ * the same draws as the CLI without options.
+ */
+export function randomParams(
+  seed: number,
+  width: number,
+  height: number
+): CompositionParams {
+  return compositionParams(seed, width, height, DEFAULT_SETTINGS);
+}
@@ -0,0 +1,78 @@
+// --- Seedable Random Number Generation (Node and browser) ---
+
+/**
+ * A source of uniformly distributed numbers in [0, 1), drop-in compatible
+ * with `Math.random`.
+ */
+export type Random = () => number;
+
+const UINT32_RANGE = 0x100000000;
+
+/**
+ * Creates a deterministic PRNG (mulberry32) from a 32-bit seed.
+ * Only integer arithmetic via `Math.imul` is used, so the sequence is
+ * identical in every JavaScript engine.
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / UINT32_RANGE;
+  };
+}
+
+/**
+ * Derives an independent seed from a parent seed and a label, so separate
+ * concerns (layout, colors, tones...) never consume each other's numbers.
+ */
+export function deriveSeed(seed: number, label: string): number {
+  let h = (seed ^ 0x9e3779b9) >>> 0;
+  for (let i = 0; i < label.length; i++) {
+    h = Math.imul(h ^ label.charCodeAt(i), 0x01000193);
+  }
+  // murmur3 finalizer for good avalanche behaviour
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+/**
+ * Returns the seed that follows `seed` in a generation sequence.
+ * Used for runs of several compositions: entering any seed of the sequence
+ * reproduces that composition and every one after it.
+ */
+export function nextSeed(seed: number): number {
+  return deriveSeed(seed, "next");
+}
+
+/**
+ * Picks a fresh, non-reproducible seed.
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * UINT32_RANGE);
+}
+
+/**
+ * Parses a user-supplied seed. Unsigned 32-bit integers are used as-is,
+ * any other text (e.g. "gallery-opening") is hashed into a seed.
+ */
+export function parseSeed(input: string): number {
+  const trimmed = input.trim();
+  if (/^\d+$/.test(trimmed) && Number(trimmed) < UINT32_RANGE) {
+    return Number(trimmed);
+  }
+  return deriveSeed(0, trimmed);
+}
+
+// Helper function to generate a random integer within a range
+export const randInt = (random: Random, min: number, max: number) =>
+  Math.floor(random() * (max - min + 1)) + min;
+// Helper function to generate a random float within a range
+export const randFloat = (random: Random, min: number, max: number) =>
+  random() * (max - min) + min;
@@ -0,0 +1,119 @@
+import { ColoredBlock, Composition } from "./composition";
+import { lozengeCorners } from "./layouts";
+import { GridLine } from "./lines";
+
+/**
+ * The subset of the 2D canvas API used for drawing. Both node-canvas
+ * contexts and the browser's `CanvasRenderingContext2D` satisfy it.
+ */
+export interface RenderContext {
+  // Gradients and patterns are objects in both environments
+  fillStyle: string | object;
+  strokeStyle: string | object;
+  lineWidth: number;
+  lineCap: "butt" | "round" | "square";
+  lineJoin: "bevel" | "miter" | "round";
+  globalAlpha: number;
+  fillRect(x: number, y: number, width: number, height: number): void;
+  clearRect(x: number, y: number, width: number, height: number): void;
+  beginPath(): void;
+  moveTo(x: number, y: number): void;
+  lineTo(x: number, y: number): void;
+  closePath(): void;
+  stroke(): void;
+  clip(): void;
+  save(): void;
+  restore(): void;
+}
+
+export function fillBlocks(ctx: RenderContext, blocks: ColoredBlock[]): void {
+  for (const block of blocks) {
+    ctx.fillStyle = block.color;
+    ctx.fillRect(block.x, block.y, block.width, block.height);
+  }
+}
+
+/**
+ * Draws a grid line from its start `length` (0 to 1) of the way to its end.
+ */
+export function strokeLine(
+  ctx: RenderContext,
+  line: GridLine,
+  length: number = 1
+): void {
+  ctx.lineWidth = line.weight;
+  ctx.beginPath();
+  ctx.moveTo(line.x1, line.y1);
+  ctx.lineTo(
+    line.x1 + (line.x2 - line.x1) * length,
+    line.y1 + (line.y2 - line.y1) * length
+  );
+  ctx.stroke();
+}
+
+/**
+ * Sets up the stroke for the composition's grid lines.
+ */
+export function lineStroke(ctx: RenderContext, composition: Composition): void {
+  ctx.strokeStyle = composition.lineColor;
+  ctx.lineCap = "butt";
+  ctx.lineJoin = "miter";
+}
+
+/**
+ * Restricts drawing to the composition's shape: the diamond of a lozenge
+ * canvas, or all of it.
+ */
+export function clipToShape(
+  ctx: RenderContext,
+  composition: Composition
+): void {
+  if (composition.shape !== "lozenge") return;
+  ctx.beginPath();
+  for (const [x, y] of lozengeCorners(composition.width, composition.height)) {
+    ctx.lineTo(x, y);
+  }
+  ctx.closePath();
+  ctx.clip();
+}
+
+/**
+ * Draws the composition over what is already on the canvas, within its
+ * shape, at the current `globalAlpha`.
+ */
+export function overlayComposition(
+  ctx: RenderContext,
+  composition: Composition
+): void {
+  ctx.save();
+  clipToShape(ctx, composition);
+
+  // 1. Initialize the canvas with the background
+  ctx.fillStyle = composition.background;
+  ctx.fillRect(0, 0, composition.width, composition.height);
+
+  // 2. Fill blocks with colors (White or Primary)
+  fillBlocks(ctx, composition.blocks);
+
+  // 3. Draw the grid over the blocks, each line at its own weight
+  lineStroke(ctx, composition);
+  for (const line of composition.lines) {
+    strokeLine(ctx, line);
+  }
+
+  // 4. Colored segments on top of the lines (Boogie-Woogie)
+  fillBlocks(ctx, composition.accents);
+  ctx.restore();
+}
+
+/**
+ * Fills blocks and draws the orthogonal grid lines over them. Outside the
+ * diamond of a lozenge the canvas is left transparent.
+ */
+export function drawComposition(
+  ctx: RenderContext,
+  composition: Composition
+): void {
+  ctx.clearRect(0, 0, composition.width, composition.height);
+  overlayComposition(ctx, composition);
+}
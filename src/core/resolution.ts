@@ -0,0 +1,107 @@
+// --- Output Resolutions ---
+
+export interface Resolution {
+  width: number;
+  height: number;
+  /** Print density; only meaningful for paper sizes. */
+  dpi?: number;
+}
+
+/**
+ * Short side of the 4K UHD canvas that absolute sizes (minimum block size,
+ * line weights) are tuned for.
+ */
+export const REFERENCE_SIZE = 2160;
+
+/**
+ * Factor to scale sizes tuned for the reference canvas to a canvas of the
+ * given dimensions, so compositions look the same at every size.
+ */
+export function relativeScale(width: number, height: number): number {
+  return Math.min(width, height) / REFERENCE_SIZE;
+}
+
+const has = (record: object, key: string) =>
+  Object.prototype.hasOwnProperty.call(record, key);
+
+export const RESOLUTION_PRESETS: Record<string, Resolution> = {
+  "1080p": { width: 1920, height: 1080 },
+  "4k": { width: 3840, height: 2160 },
+  "8k": { width: 7680, height: 4320 },
+  square: { width: 2160, height: 2160 },
+  "instagram-post": { width: 1080, height: 1350 },
+  "instagram-story": { width: 1080, height: 1920 },
+  // Phone wallpapers
+  phone: { width: 1170, height: 2532 },
+  "phone-max": { width: 1290, height: 2796 },
+  "phone-android": { width: 1440, height: 3120 },
+};
+
+// Paper sizes in millimeters, portrait
+const PAPER_SIZES: Record<string, [number, number]> = {
+  a3: [297, 420],
+  a4: [210, 297],
+  a5: [148, 210],
+  letter: [215.9, 279.4],
+};
+
+export const DEFAULT_DPI = 300;
+const MM_PER_INCH = 25.4;
+
+/**
+ * Pixel size of a sheet of paper at the given density.
+ */
+export function paperResolution(
+  paper: string,
+  dpi: number,
+  landscape = false
+): Resolution {
+  const [width, height] = PAPER_SIZES[paper].map((mm) =>
+    Math.round((mm / MM_PER_INCH) * dpi)
+  );
+  return landscape
+    ? { width: height, height: width, dpi }
+    : { width, height, dpi };
+}
+
+/**
+ * Parses a resolution: a preset name (`4k`, `square`, ...), `<width>x<height>`
+ * in pixels, or a paper size (`a3`, `a4`, `a5`, `letter`, optionally with a
+ * `-landscape` suffix) at `@<dpi>dpi`, e.g. `a4@300dpi`.
+ * @param dpi Density for paper sizes without their own; also attached to
+ * pixel sizes so they can carry print metadata.
+ * @throws Error if the value matches none of these.
+ */
+export function parseResolution(value: string, dpi?: number): Resolution {
+  const name = value.trim().toLowerCase();
+
+  if (has(RESOLUTION_PRESETS, name)) {
+    return { ...RESOLUTION_PRESETS[name], dpi };
+  }
+
+  const pixels = name.match(/^(\d+)x(\d+)$/);
+  if (pixels) {
+    const [width, height] = [Number(pixels[1]), Number(pixels[2])];
+    if (width > 0 && height > 0) {
+      return { width, height, dpi };
+    }
+  }
+
+  const paper = name.match(/^([a-z0-9]+?)(-landscape)?(?:@(\d+)dpi)?$/);
+  if (paper && has(PAPER_SIZES, paper[1])) {
+    const paperDpi = paper[3] ? Number(paper[3]) : dpi ?? DEFAULT_DPI;
+    if (paperDpi > 0) {
+      return paperResolution(paper[1], paperDpi, paper[2] !== undefined);
+    }
+  }
+
+  throw new Error(
+    `Invalid resolution "${value}". Use one of ${Object.keys(
+      RESOLUTION_PRESETS
+    ).join(
+      ", "
+    )}, <width>x<height>, or a paper size like a4@300dpi (${Object.keys(
+      PAPER_SIZES
+    ).join(", ")}).`
+  );
+}
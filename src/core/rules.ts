@@ -0,0 +1,288 @@
+import { Block, ColoredBlock } from "./composition";
+import { CompositionShape, visibleArea, visibleCanvasArea } from "./layouts";
+import { GridLine, isFrameLine, shortenAtCanvasEdge } from "./lines";
+import { Palette, pickColor } from "./palette";
+import { Random } from "./random";
+
+// --- Composition Rules (constraints layered on top of the block layout) ---
+
+export const RULE_NAMES = [
+  "no-adjacent",
+  "max-area",
+  "prefer-small",
+  "all-colors",
+  "short-edges",
+] as const;
+export type RuleName = (typeof RULE_NAMES)[number];
+
+export const MAX_COLORED_AREA = 0.35; // Fraction of the canvas, for "max-area"
+
+export interface RuleContext {
+  width: number;
+  height: number;
+  /** Areas count what the shape shows, e.g. only the lozenge's diamond. */
+  shape: CompositionShape;
+  palette: Palette;
+  /** Stream reserved for rules, independent of layout and color picking. */
+  random: Random;
+  maxColoredArea: number;
+}
+
+/**
+ * Coloring progress shared by all rules while blocks are colored in order.
+ */
+export interface ColoringState {
+  rules: CompositionRule[];
+  blocks: ColoredBlock[];
+  /** Indices of the blocks sharing an edge with each block. */
+  neighbors: number[][];
+  /** Visible colored area. */
+  coloredArea: number;
+  context: RuleContext;
+}
+
+/**
+ * A rule may hook into any stage of the pipeline; every hook is optional.
+ */
+export interface CompositionRule {
+  name: RuleName;
+  description: string;
+  /** Adjusts the probability of a block being colored. */
+  colorChance?(block: Block, chance: number, state: ColoringState): number;
+  /** Vetoes a color for the block at `index`. */
+  allowColor?(index: number, color: string, state: ColoringState): boolean;
+  /** Runs once every block has been colored. */
+  finalizeColors?(state: ColoringState): void;
+  /** Transforms the grid lines. */
+  adjustLines?(lines: GridLine[], context: RuleContext): GridLine[];
+}
+
+const area = (block: Block) => block.width * block.height;
+
+const shownArea = (block: Block, { shape, width, height }: RuleContext) =>
+  visibleArea(block, shape, width, height);
+
+const isColored = (state: ColoringState, index: number) =>
+  state.blocks[index].color !== state.context.palette.background;
+
+const allowedByAll = (
+  rules: CompositionRule[],
+  index: number,
+  color: string,
+  state: ColoringState
+) =>
+  rules.every(
+    (rule) => !rule.allowColor || rule.allowColor(index, color, state)
+  );
+
+// --- Rules ---
+
+const noAdjacent: CompositionRule = {
+  name: "no-adjacent",
+  description: "No two adjacent blocks share the same color.",
+  allowColor: (index, color, state) =>
+    state.neighbors[index].every((n) => state.blocks[n].color !== color),
+};
+
+const maxArea: CompositionRule = {
+  name: "max-area",
+  description: "Caps the total colored area of the canvas.",
+  allowColor: (index, _color, { blocks, coloredArea, context }) =>
+    coloredArea + shownArea(blocks[index], context) <=
+    context.maxColoredArea *
+      visibleCanvasArea(context.shape, context.width, context.height),
+};
+
+const preferSmall: CompositionRule = {
+  name: "prefer-small",
+  description: "Smaller blocks are more likely to be colored.",
+  // Sizes as shown, so lozenge blocks compare with the diamond's mean
+  colorChance: (block, chance, { blocks, context }) => {
+    const meanArea =
+      visibleCanvasArea(context.shape, context.width, context.height) /
+      blocks.length;
+    return Math.min(
+      1,
+      chance * Math.min(2, Math.sqrt(meanArea / shownArea(block, context)))
+    );
+  },
+};
+
+const allColors: CompositionRule = {
+  name: "all-colors",
+  description:
+    "Every palette color appears at least once, as far as the other rules allow.",
+  // Recolors a small white block for each missing color. A color no block
+  // can take without breaking another rule (e.g. once max-area's cap is
+  // reached) is left out; `missingColors` reports it.
+  finalizeColors: (state) => {
+    for (const { color } of state.context.palette.colors) {
+      if (state.blocks.some((block) => block.color === color)) continue;
+
+      const candidates = state.blocks
+        .map((_block, index) => index)
+        .filter((index) => !isColored(state, index))
+        .sort((a, b) => area(state.blocks[a]) - area(state.blocks[b]));
+      if (candidates.length === 0) return;
+
+      const allowed = candidates.filter((index) =>
+        allowedByAll(state.rules, index, color, state)
+      );
+      if (allowed.length === 0) continue;
+      // Pick among the smaller half of the allowed blocks
+      const index =
+        allowed[
+          Math.floor(state.context.random() * Math.ceil(allowed.length / 2))
+        ];
+      state.blocks[index] = { ...state.blocks[index], color };
+      state.coloredArea += shownArea(state.blocks[index], state.context);
+    }
+  },
+};
+
+const shortEdges: CompositionRule = {
+  name: "short-edges",
+  description: "Drops the frame; some lines stop short of the canvas edge.",
+  adjustLines: (lines, { width, height, random }) =>
+    lines
+      .filter((line) => !isFrameLine(line, width, height))
+      .map((line) => shortenAtCanvasEdge(line, width, height, 0.5, random)),
+};
+
+export const RULES: Record<RuleName, CompositionRule> = {
+  "no-adjacent": noAdjacent,
+  "max-area": maxArea,
+  "prefer-small": preferSmall,
+  "all-colors": allColors,
+  "short-edges": shortEdges,
+};
+
+export function isRuleName(value: string): value is RuleName {
+  return (RULE_NAMES as readonly string[]).includes(value);
+}
+
+// --- Pipeline ---
+
+/**
+ * Whether two blocks share an edge of positive length.
+ */
+function isAdjacent(a: Block, b: Block): boolean {
+  const overlapX =
+    Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x) > 0;
+  const overlapY =
+    Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y) > 0;
+  const touchX = a.x + a.width === b.x || b.x + b.width === a.x;
+  const touchY = a.y + a.height === b.y || b.y + b.height === a.y;
+  return (touchX && overlapY) || (touchY && overlapX);
+}
+
+function findNeighbors(blocks: Block[]): number[][] {
+  return blocks.map((block, i) =>
+    blocks
+      .map((_other, j) => j)
+      .filter((j) => j !== i && isAdjacent(block, blocks[j]))
+  );
+}
+
+/**
+ * Colors blocks in order, letting each rule adjust the color chance and veto
+ * colors. A vetoed pick falls back to a weighted pick among the remaining
+ * allowed colors, or the background if none is left. Without rules this is
+ * exactly a plain `colorChance` draw followed by a palette pick.
+ */
+export function colorBlocksWithRules(
+  blocks: Block[],
+  colorChance: number,
+  rules: CompositionRule[],
+  context: RuleContext,
+  random: Random
+): ColoredBlock[] {
+  const { palette } = context;
+  const state: ColoringState = {
+    rules,
+    blocks: blocks.map((block) => ({ ...block, color: palette.background })),
+    neighbors: rules.some((rule) => rule.allowColor)
+      ? findNeighbors(blocks)
+      : blocks.map(() => []),
+    coloredArea: 0,
+    context,
+  };
+
+  blocks.forEach((block, index) => {
+    const chance = rules.reduce(
+      (value, rule) =>
+        rule.colorChance ? rule.colorChance(block, value, state) : value,
+      colorChance
+    );
+    if (random() >= chance) return;
+
+    let color = pickColor(palette, random);
+    if (!allowedByAll(rules, index, color, state)) {
+      const allowed = palette.colors.filter((entry) =>
+        allowedByAll(rules, index, entry.color, state)
+      );
+      if (allowed.length === 0) return;
+      color = pickColor({ ...palette, colors: allowed }, random);
+    }
+
+    state.blocks[index] = { ...block, color };
+    state.coloredArea += shownArea(block, context);
+  });
+
+  for (const rule of rules) {
+    rule.finalizeColors?.(state);
+  }
+
+  return state.blocks;
+}
+
+/**
+ * Palette colors no block was given, e.g. ones "all-colors" could not place
+ * without breaking another rule.
+ */
+export function missingColors(
+  blocks: ColoredBlock[],
+  palette: Palette
+): string[] {
+  return palette.colors
+    .map(({ color }) => color)
+    .filter((color) => !blocks.some((block) => block.color === color));
+}
+
+/**
+ * Passes the grid lines through every rule that transforms lines.
+ */
+export function applyLineRules(
+  lines: GridLine[],
+  rules: CompositionRule[],
+  context: RuleContext
+): GridLine[] {
+  return rules.reduce(
+    (current, rule) =>
+      rule.adjustLines ? rule.adjustLines(current, context) : current,
+    lines
+  );
+}
+
+/**
+ * Parses a comma-separated list of rule names; "all" enables every rule.
+ * @throws Error naming the first unknown rule.
+ */
+export function parseRuleNames(list: string): RuleName[] {
+  const names = list
+    .split(",")
+    .map((name) => name.trim())
+    .filter((name) => name !== "");
+  if (names.includes("all")) {
+    return [...RULE_NAMES];
+  }
+
+  for (const name of names) {
+    if (!isRuleName(name)) {
+      throw new Error(
+        `Unknown rule "${name}". Use "all" or any of ${RULE_NAMES.join(", ")}.`
+      );
+    }
+  }
+  return names as RuleName[];
+}
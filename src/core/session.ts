@@ -0,0 +1,54 @@
+import { Composition, generateComposition } from "./composition";
+import { randomParams } from "./params";
+import { nextSeed } from "./random";
+import { Note, SonificationName, TONE_DURATION, sonify } from "./sonification";
+import { DEFAULT_HARMONY, Harmony } from "./theory";
+
+// --- Sessions (a sequence of compositions, as the players step through) ---
+
+export interface SessionOptions {
+  /** Number of compositions. */
+  count: number;
+  /** Size the compositions are generated at. */
+  width: number;
+  height: number;
+  /** Default: "timbre". */
+  sonification?: SonificationName;
+  /** Default: A major triads. */
+  harmony?: Harmony;
+  /** Length of each composition's sound, in seconds. Default: `TONE_DURATION`. */
+  duration?: number;
+}
+
+export interface SessionEntry {
+  seed: number;
+  composition: Composition;
+  notes: Note[];
+}
+
+/**
+ * `count` successive compositions and their notes, starting at `seed` and
+ * following the same seed sequence as the players, each voice-led from the
+ * one before.
+ */
+export function composeSession(
+  seed: number,
+  options: SessionOptions
+): SessionEntry[] {
+  const entries: SessionEntry[] = [];
+  let previous: number[] = [];
+  for (let i = 0; i < options.count; i++) {
+    const composition = generateComposition(
+      randomParams(seed, options.width, options.height)
+    );
+    const notes = sonify(composition, options.sonification, {
+      duration: options.duration ?? TONE_DURATION,
+      harmony: options.harmony ?? DEFAULT_HARMONY,
+      previous,
+    });
+    entries.push({ seed, composition, notes });
+    previous = notes.map((note) => note.frequency);
+    seed = nextSeed(seed);
+  }
+  return entries;
+}
@@ -0,0 +1,206 @@
+import { Block, ColoredBlock, Composition } from "./composition";
+import {
+  DEFAULT_HARMONY,
+  Harmony,
+  SCALES,
+  buildChord,
+  snapToScale,
+  tonicFrequency,
+  voiceLead,
+} from "./theory";
+import { generateTones } from "./tones";
+
+// --- Sonification (turning a composition into notes) ---
+
+/** Length of the sound accompanying one composition, in seconds. */
+export const TONE_DURATION = 5;
+
+// Most notes sounding for one composition; smaller blocks stay silent
+const MAX_NOTES = 8;
+
+// Pitch range, in octaves up from the key's tonic (A3 to A5 in A)
+const PITCH_OCTAVES = 2;
+
+export const WAVEFORMS = [
+  "sine",
+  "triangle",
+  "square",
+  "sawtooth",
+  "additive",
+] as const;
+export type Waveform = (typeof WAVEFORMS)[number];
+
+/**
+ * A single tone, independent of how it is played (Web Audio or PCM).
+ */
+export interface Note {
+  frequency: number;
+  /** Offset from the start of the composition's sound, in seconds. */
+  start: number;
+  duration: number;
+  /** Share of the full volume, 0 to 1; a composition's notes sum to 1. */
+  amplitude: number;
+  /** Stereo position, -1 (left) to 1 (right). */
+  pan: number;
+  waveform: Waveform;
+}
+
+export const SONIFICATION_NAMES = ["timbre", "chord", "seed"] as const;
+export type SonificationName = (typeof SONIFICATION_NAMES)[number];
+
+export interface SonificationContext {
+  /** Length of the composition's sound, in seconds. */
+  duration: number;
+  harmony: Harmony;
+  /** Frequencies of the previous composition's notes, for voice leading. */
+  previous: number[];
+}
+
+export interface SonificationStrategy {
+  name: SonificationName;
+  description: string;
+  sonify(composition: Composition, context: SonificationContext): Note[];
+}
+
+// --- Block Mapping ---
+
+const area = (block: Block) => block.width * block.height;
+
+/**
+ * The blocks that sound: the largest colored blocks, or the largest block
+ * of a composition without color.
+ */
+function soundingBlocks(composition: Composition): ColoredBlock[] {
+  const bySize = [...composition.blocks].sort((a, b) => area(b) - area(a));
+  const colored = bySize.filter(
+    (block) => block.color !== composition.background
+  );
+  return colored.length > 0 ? colored.slice(0, MAX_NOTES) : bySize.slice(0, 1);
+}
+
+/**
+ * Maps every sounding block to a note, leaving only the pitch and timbre to
+ * the strategy:
+ * - x-position → stereo pan, and the entry time (read left to right)
+ * - area → duration and amplitude (larger blocks sound longer and louder)
+ */
+function blocksToNotes(
+  composition: Composition,
+  duration: number,
+  voice: (block: ColoredBlock) => Pick<Note, "frequency" | "waveform">
+): Note[] {
+  const blocks = soundingBlocks(composition);
+  const largest = Math.max(...blocks.map(area));
+  const loudness = blocks.map((block) => Math.sqrt(area(block)));
+  const totalLoudness = loudness.reduce((sum, value) => sum + value, 0);
+
+  return blocks
+    .map((block, i) => {
+      const start = (block.x / composition.width) * (duration / 2);
+      return {
+        ...voice(block),
+        start,
+        duration: (duration - start) * (0.4 + 0.6 * (area(block) / largest)),
+        amplitude: loudness[i] / totalLoudness,
+        pan: ((block.x + block.width / 2) / composition.width) * 2 - 1,
+      };
+    })
+    .sort((a, b) => a.start - b.start);
+}
+
+/** Vertical position of a block's center, 0 (bottom) to 1 (top). */
+const elevation = (block: Block, composition: Composition) =>
+  1 - (block.y + block.height / 2) / composition.height;
+
+/** Index of the block's color in the palette (0 for unknown colors). */
+const colorIndex = (block: ColoredBlock, composition: Composition) =>
+  Math.max(
+    0,
+    composition.palette.colors.findIndex((entry) => entry.color === block.color)
+  );
+
+// --- Strategies ---
+
+const timbre: SonificationStrategy = {
+  name: "timbre",
+  description:
+    "Higher blocks sound higher, on the scale; each color has its own timbre (waveform).",
+  sonify: (composition, { duration, harmony }) =>
+    blocksToNotes(composition, duration, (block) => ({
+      frequency: snapToScale(
+        harmony,
+        tonicFrequency(harmony.key) *
+          Math.pow(2, PITCH_OCTAVES * elevation(block, composition))
+      ),
+      waveform: WAVEFORMS[colorIndex(block, composition) % WAVEFORMS.length],
+    })),
+};
+
+const chord: SonificationStrategy = {
+  name: "chord",
+  description:
+    "The height of the largest block picks a chord on the scale; each color plays one of its notes.",
+  sonify: (composition, { duration, harmony, previous }) => {
+    const steps = SCALES[harmony.scale].ratios.length;
+    const [largest] = soundingBlocks(composition);
+    const root = Math.min(
+      steps - 1,
+      Math.floor(elevation(largest, composition) * steps)
+    );
+    const notes = voiceLead(harmony, buildChord(harmony, root), previous);
+    return blocksToNotes(composition, duration, (block) => ({
+      frequency: notes[colorIndex(block, composition) % notes.length],
+      waveform: "triangle",
+    }));
+  },
+};
+
+const seed: SonificationStrategy = {
+  name: "seed",
+  description: "A chord on a random degree of the scale, ignoring the image.",
+  sonify: (composition, { duration, harmony, previous }) =>
+    tonesToNotes(generateTones(composition.seed, harmony, previous), duration),
+};
+
+export const SONIFICATIONS: Record<SonificationName, SonificationStrategy> = {
+  timbre,
+  chord,
+  seed,
+};
+
+export function isSonificationName(value: string): value is SonificationName {
+  return (SONIFICATION_NAMES as readonly string[]).includes(value);
+}
+
+/**
+ * Plain sine tones sounding together for the whole duration, each at an
+ * equal share of the volume.
+ */
+export function tonesToNotes(frequencies: number[], duration: number): Note[] {
+  return frequencies.map((frequency) => ({
+    frequency,
+    start: 0,
+    duration,
+    amplitude: 1 / frequencies.length,
+    pan: 0,
+    waveform: "sine",
+  }));
+}
+
+/**
+ * Turns a composition into the notes that accompany it.
+ * @param name Mapping from blocks to notes. Default: "timbre".
+ * @param context Defaults: `TONE_DURATION`, A major triads, no previous
+ * notes.
+ */
+export function sonify(
+  composition: Composition,
+  name: SonificationName = "timbre",
+  context: Partial<SonificationContext> = {}
+): Note[] {
+  return SONIFICATIONS[name].sonify(composition, {
+    duration: context.duration ?? TONE_DURATION,
+    harmony: context.harmony ?? DEFAULT_HARMONY,
+    previous: context.previous ?? [],
+  });
+}
@@ -0,0 +1,107 @@
+import { ColoredBlock, Composition } from "./composition";
+import { lozengeCorners } from "./layouts";
+import { ImageMetadata, svgMetadataElement } from "./metadata";
+
+// Colors come from palette files and documents, so are escaped like the
+// metadata
+const attribute = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const rect = (block: ColoredBlock) =>
+  `    <rect x="${block.x}" y="${block.y}" width="${block.width}" height="${
+    block.height
+  }" fill="${attribute(block.color)}"/>`;
+
+export interface SvgOptions {
+  /** Print density; sizes the document in millimeters instead of pixels. */
+  dpi?: number;
+  /** Generation parameters, embedded in a `<metadata>` element. */
+  metadata?: ImageMetadata;
+}
+
+// Physical size of `pixels` at `dpi`, rounded to 0.01mm
+const toMillimeters = (pixels: number, dpi: number) =>
+  `${Math.round((pixels / dpi) * 2540) / 100}mm`;
+
+/**
+ * Renders a composition as a standalone SVG document: one `<rect>` per
+ * colored block and one `<line>` per grid line, suitable for large-format
+ * print and plotters.
+ */
+export function renderSvg(
+  composition: Composition,
+  options: SvgOptions = {}
+): string {
+  const { width, height } = composition;
+  const { dpi, metadata } = options;
+  const size = dpi
+    ? `width="${toMillimeters(width, dpi)}" height="${toMillimeters(
+        height,
+        dpi
+      )}"`
+    : `width="${width}" height="${height}"`;
+  const lines: string[] = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<svg xmlns="http://www.w3.org/2000/svg" ${size} viewBox="0 0 ${width} ${height}">`,
+  ];
+  if (metadata) {
+    lines.push(`  ${svgMetadataElement(metadata)}`);
+  }
+
+  // Lozenge canvases show only the diamond; the rest stays transparent
+  const lozenge = composition.shape === "lozenge";
+  if (lozenge) {
+    const points = lozengeCorners(width, height)
+      .map(([x, y]) => `${x},${y}`)
+      .join(" ");
+    lines.push(
+      `  <clipPath id="lozenge"><polygon points="${points}"/></clipPath>`,
+      `  <g clip-path="url(#lozenge)">`
+    );
+  }
+
+  lines.push(
+    `  <rect width="${width}" height="${height}" fill="${attribute(
+      composition.background
+    )}"/>`
+  );
+
+  // White blocks are already covered by the background
+  const colored = composition.blocks.filter(
+    (block) => block.color !== composition.background
+  );
+  if (colored.length > 0) {
+    lines.push(`  <g>`, ...colored.map(rect), `  </g>`);
+  }
+
+  lines.push(
+    `  <g stroke="${attribute(composition.lineColor)}" stroke-width="${
+      composition.lineWeight
+    }" stroke-linecap="butt">`
+  );
+  for (const segment of composition.lines) {
+    // Only lines deviating from the base weight need their own stroke-width
+    const weight =
+      segment.weight === composition.lineWeight
+        ? ""
+        : ` stroke-width="${segment.weight}"`;
+    lines.push(
+      `    <line x1="${segment.x1}" y1="${segment.y1}" x2="${segment.x2}" y2="${segment.y2}"${weight}/>`
+    );
+  }
+  lines.push(`  </g>`);
+
+  if (composition.accents.length > 0) {
+    lines.push(`  <g>`, ...composition.accents.map(rect), `  </g>`);
+  }
+  if (lozenge) {
+    lines.push(`  </g>`);
+  }
+  lines.push(`</svg>`, ``);
+
+  return lines.join("\n");
+}
@@ -0,0 +1,284 @@
+import { Note } from "./sonification";
+import {
+  DEFAULT_EFFECTS,
+  DEFAULT_VOICE,
+  EffectsSettings,
+  FILTER_Q,
+  VoiceSettings,
+  detunedFrequencies,
+  envelopeLevel,
+  envelopePoints,
+  oscillate,
+} from "./voice";
+
+// --- Offline Synthesizer (renders notes to PCM samples) ---
+
+export interface StereoBuffer {
+  left: Float32Array;
+  right: Float32Array;
+}
+
+export interface SynthOptions {
+  sampleRate: number;
+  /** Length of the rendered audio, in seconds. */
+  duration: number;
+  voice?: VoiceSettings;
+  effects?: EffectsSettings;
+}
+
+/**
+ * Coefficients of a biquad low-pass filter (RBJ cookbook, as used by the
+ * Web Audio `BiquadFilterNode`), normalized so a0 = 1.
+ */
+function lowpass(cutoff: number, sampleRate: number) {
+  const w0 = (2 * Math.PI * Math.min(cutoff, sampleRate * 0.49)) / sampleRate;
+  const alpha = Math.sin(w0) / (2 * FILTER_Q);
+  const cos = Math.cos(w0);
+  const a0 = 1 + alpha;
+  return {
+    b0: (1 - cos) / 2 / a0,
+    b1: (1 - cos) / a0,
+    b2: (1 - cos) / 2 / a0,
+    a1: (-2 * cos) / a0,
+    a2: (1 - alpha) / a0,
+  };
+}
+
+/**
+ * Adds one note, through its oscillators, envelope and filter, to the mix.
+ */
+function renderNote(
+  note: Note,
+  voice: VoiceSettings,
+  sampleRate: number,
+  mix: StereoBuffer
+): void {
+  const start = Math.round(note.start * sampleRate);
+  const end = Math.min(
+    mix.left.length,
+    start + Math.round(note.duration * sampleRate)
+  );
+  const waveform = voice.waveform ?? note.waveform;
+  const frequencies = detunedFrequencies(note.frequency, voice.detune);
+  const points = envelopePoints(voice.envelope, note.duration);
+  const { b0, b1, b2, a1, a2 } = lowpass(voice.cutoff, sampleRate);
+
+  // Equal-power panning
+  const angle = ((note.pan + 1) * Math.PI) / 4;
+  const gainLeft = note.amplitude * Math.cos(angle);
+  const gainRight = note.amplitude * Math.sin(angle);
+
+  let [x1, x2, y1, y2] = [0, 0, 0, 0];
+  for (let i = start; i < end; i++) {
+    const time = (i - start) / sampleRate;
+    let x = 0;
+    for (const frequency of frequencies) {
+      x += oscillate(waveform, time * frequency);
+    }
+    x /= frequencies.length;
+
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    [x2, x1, y2, y1] = [x1, x, y1, y];
+
+    const sample = y * envelopeLevel(points, time);
+    mix.left[i] += sample * gainLeft;
+    mix.right[i] += sample * gainRight;
+  }
+}
+
+// --- Effects Bus ---
+
+// Freeverb-style reverb: parallel damped comb filters into series allpass
+// filters, tuned in samples at 44.1 kHz; the right channel is slightly
+// offset for stereo width
+const COMB_TUNINGS = [1116, 1188, 1277, 1356];
+const ALLPASS_TUNINGS = [556, 441];
+const STEREO_SPREAD = 23;
+const COMB_FEEDBACK = 0.84;
+const COMB_DAMPING = 0.2;
+const ALLPASS_FEEDBACK = 0.5;
+const REVERB_GAIN = 0.15;
+
+function reverbChannel(
+  input: Float32Array,
+  sampleRate: number,
+  spread: number
+): Float32Array {
+  const scale = sampleRate / 44100;
+  const output = new Float32Array(input.length);
+
+  for (const tuning of COMB_TUNINGS) {
+    const buffer = new Float32Array(Math.round((tuning + spread) * scale));
+    let index = 0;
+    let filtered = 0;
+    for (let i = 0; i < input.length; i++) {
+      const delayed = buffer[index];
+      output[i] += delayed;
+      filtered = delayed * (1 - COMB_DAMPING) + filtered * COMB_DAMPING;
+      buffer[index] = input[i] * REVERB_GAIN + filtered * COMB_FEEDBACK;
+      index = (index + 1) % buffer.length;
+    }
+  }
+
+  for (const tuning of ALLPASS_TUNINGS) {
+    const buffer = new Float32Array(Math.round((tuning + spread) * scale));
+    let index = 0;
+    for (let i = 0; i < output.length; i++) {
+      const delayed = buffer[index];
+      const x = output[i];
+      output[i] = delayed - x;
+      buffer[index] = x + delayed * ALLPASS_FEEDBACK;
+      index = (index + 1) % buffer.length;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * The reverb's wet output for a mono input.
+ */
+export function reverb(input: Float32Array, sampleRate: number): StereoBuffer {
+  return {
+    left: reverbChannel(input, sampleRate, 0),
+    right: reverbChannel(input, sampleRate, STEREO_SPREAD),
+  };
+}
+
+/**
+ * Impulse response of the reverb, for Web Audio's `ConvolverNode`, so the
+ * browser's reverb sounds like the offline one.
+ */
+export function reverbImpulse(
+  sampleRate: number,
+  seconds: number
+): StereoBuffer {
+  const impulse = new Float32Array(Math.round(sampleRate * seconds));
+  impulse[0] = 1;
+  return reverb(impulse, sampleRate);
+}
+
+/**
+ * Feedback delay on each channel: echoes every `delayTime` seconds, each
+ * `delayFeedback` times softer.
+ */
+function delay(
+  input: Float32Array,
+  sampleRate: number,
+  effects: EffectsSettings
+): Float32Array {
+  const samples = Math.max(1, Math.round(effects.delayTime * sampleRate));
+  const output = new Float32Array(input.length);
+  for (let i = samples; i < input.length; i++) {
+    output[i] =
+      input[i - samples] + effects.delayFeedback * output[i - samples];
+  }
+  return output;
+}
+
+/**
+ * Mixes the effects into the dry signal: reverb on the mono sum, delay per
+ * channel, each at its mix level.
+ */
+function applyEffects(
+  dry: StereoBuffer,
+  sampleRate: number,
+  effects: EffectsSettings
+): void {
+  if (effects.delay > 0) {
+    const left = delay(dry.left, sampleRate, effects);
+    const right = delay(dry.right, sampleRate, effects);
+    for (let i = 0; i < dry.left.length; i++) {
+      dry.left[i] += left[i] * effects.delay;
+      dry.right[i] += right[i] * effects.delay;
+    }
+  }
+
+  if (effects.reverb > 0) {
+    const mono = dry.left.map((sample, i) => (sample + dry.right[i]) / 2);
+    const wet = reverb(mono, sampleRate);
+    for (let i = 0; i < dry.left.length; i++) {
+      dry.left[i] += wet.left[i] * effects.reverb;
+      dry.right[i] += wet.right[i] * effects.reverb;
+    }
+  }
+}
+
+/**
+ * Renders notes offline with the voice engine: the same oscillators,
+ * envelopes, filter and effects bus the browser builds with Web Audio.
+ * @returns Samples from -1 to 1 (before any clipping).
+ */
+export function renderNotes(
+  notes: Note[],
+  options: SynthOptions
+): StereoBuffer {
+  const length = Math.round(options.duration * options.sampleRate);
+  const mix: StereoBuffer = {
+    left: new Float32Array(length),
+    right: new Float32Array(length),
+  };
+  const voice = options.voice ?? DEFAULT_VOICE;
+
+  for (const note of notes) {
+    renderNote(note, voice, options.sampleRate, mix);
+  }
+  applyEffects(mix, options.sampleRate, options.effects ?? DEFAULT_EFFECTS);
+  return mix;
+}
+
+export interface SessionRenderOptions extends SynthOptions {
+  /**
+   * Seconds each composition's sound overlaps the next, fading out while the
+   * next fades in; 0 cuts from one to the next.
+   */
+  crossfade: number;
+}
+
+/**
+ * Renders a session: each composition's notes in its own `duration`-long
+ * slot, one after the other. With a crossfade, each composition rings on
+ * (release, echoes and reverb) into the next slot with an equal-power
+ * crossfade; the last one fades out by the end.
+ * @returns `segments.length * duration` seconds of audio.
+ */
+export function renderSession(
+  segments: Note[][],
+  options: SessionRenderOptions
+): StereoBuffer {
+  const slot = Math.round(options.duration * options.sampleRate);
+  const fade = Math.min(
+    slot,
+    Math.round(options.crossfade * options.sampleRate)
+  );
+  const length = slot * segments.length;
+  const mix: StereoBuffer = {
+    left: new Float32Array(length),
+    right: new Float32Array(length),
+  };
+
+  segments.forEach((notes, index) => {
+    const offset = index * slot;
+    const last = index === segments.length - 1;
+    const segment = renderNotes(notes, {
+      ...options,
+      duration: options.duration + options.crossfade,
+    });
+    const end = Math.min(segment.left.length, length - offset, slot + fade);
+
+    for (let i = 0; i < end; i++) {
+      let gain = 1;
+      if (index > 0 && i < fade) {
+        gain = Math.sin(((i / fade) * Math.PI) / 2);
+      } else if (i >= slot) {
+        gain = Math.cos((((i - slot) / fade) * Math.PI) / 2);
+      } else if (last && i >= slot - fade) {
+        gain = Math.cos((((i - slot + fade) / fade) * Math.PI) / 2);
+      }
+      mix.left[offset + i] += segment.left[i] * gain;
+      mix.right[offset + i] += segment.right[i] * gain;
+    }
+  });
+
+  return mix;
+}
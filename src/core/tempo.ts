@@ -0,0 +1,92 @@
+import { Note } from "./sonification";
+
+// --- Tempo (composition changes on the beat, notes on a rhythmic grid) ---
+
+export const SUBDIVISION_NAMES = [
+  "free",
+  "quarter",
+  "eighth",
+  "triplet",
+  "sixteenth",
+] as const;
+export type SubdivisionName = (typeof SUBDIVISION_NAMES)[number];
+
+export interface Subdivision {
+  name: SubdivisionName;
+  description: string;
+  /** Grid steps per beat; 0 leaves the timing free. */
+  perBeat: number;
+}
+
+export const SUBDIVISIONS: Record<SubdivisionName, Subdivision> = {
+  free: {
+    name: "free",
+    description: "Changes every interval, notes at their own times",
+    perBeat: 0,
+  },
+  quarter: {
+    name: "quarter",
+    description: "Notes on the beat",
+    perBeat: 1,
+  },
+  eighth: {
+    name: "eighth",
+    description: "Notes on eighth notes",
+    perBeat: 2,
+  },
+  triplet: {
+    name: "triplet",
+    description: "Notes on eighth-note triplets",
+    perBeat: 3,
+  },
+  sixteenth: {
+    name: "sixteenth",
+    description: "Notes on sixteenth notes",
+    perBeat: 4,
+  },
+};
+
+export function isSubdivisionName(value: string): value is SubdivisionName {
+  return (SUBDIVISION_NAMES as readonly string[]).includes(value);
+}
+
+export interface Tempo {
+  /** Beats per minute. */
+  bpm: number;
+  subdivision: SubdivisionName;
+}
+
+export const DEFAULT_TEMPO: Tempo = { bpm: 120, subdivision: "free" };
+
+/** Length of one beat, in seconds. */
+export function beatDuration(bpm: number): number {
+  return 60 / bpm;
+}
+
+/**
+ * Time between compositions: `interval` seconds, or with a rhythmic
+ * subdivision the nearest whole number of beats (at least one).
+ */
+export function compositionPeriod(interval: number, tempo: Tempo): number {
+  if (SUBDIVISIONS[tempo.subdivision].perBeat === 0) {
+    return interval;
+  }
+  const beat = beatDuration(tempo.bpm);
+  return Math.max(1, Math.round(interval / beat)) * beat;
+}
+
+/**
+ * Moves each note's start to the nearest step of the tempo's rhythmic grid;
+ * with free timing the notes are returned as is.
+ */
+export function quantizeNotes(notes: Note[], tempo: Tempo): Note[] {
+  const perBeat = SUBDIVISIONS[tempo.subdivision].perBeat;
+  if (perBeat === 0) {
+    return notes;
+  }
+  const step = beatDuration(tempo.bpm) / perBeat;
+  return notes.map((note) => ({
+    ...note,
+    start: Math.round(note.start / step) * step,
+  }));
+}
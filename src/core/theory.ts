@@ -0,0 +1,230 @@
+// --- Music Theory (keys, scales, chords and voice leading) ---
+
+export const KEY_NAMES = [
+  "C",
+  "C#",
+  "D",
+  "D#",
+  "E",
+  "F",
+  "F#",
+  "G",
+  "G#",
+  "A",
+  "A#",
+  "B",
+] as const;
+export type KeyName = (typeof KEY_NAMES)[number];
+
+export const SCALE_NAMES = [
+  "major",
+  "minor",
+  "pentatonic",
+  "whole-tone",
+  "just",
+] as const;
+export type ScaleName = (typeof SCALE_NAMES)[number];
+
+export interface Scale {
+  name: ScaleName;
+  description: string;
+  /** Frequency ratio of each degree to the tonic, within one octave. */
+  ratios: number[];
+}
+
+const equalTempered = (...semitones: number[]) =>
+  semitones.map((semitone) => Math.pow(2, semitone / 12));
+
+export const SCALES: Record<ScaleName, Scale> = {
+  major: {
+    name: "major",
+    description: "Major (Ionian) scale, equal temperament.",
+    ratios: equalTempered(0, 2, 4, 5, 7, 9, 11),
+  },
+  minor: {
+    name: "minor",
+    description: "Natural minor (Aeolian) scale, equal temperament.",
+    ratios: equalTempered(0, 2, 3, 5, 7, 8, 10),
+  },
+  pentatonic: {
+    name: "pentatonic",
+    description: "Major pentatonic: no semitones, so nothing clashes.",
+    ratios: equalTempered(0, 2, 4, 7, 9),
+  },
+  "whole-tone": {
+    name: "whole-tone",
+    description: "Six equal whole steps, dreamy and unresolved.",
+    ratios: equalTempered(0, 2, 4, 6, 8, 10),
+  },
+  just: {
+    name: "just",
+    description: "Major scale in just intonation: pure, beatless chords.",
+    ratios: [1, 9 / 8, 5 / 4, 4 / 3, 3 / 2, 5 / 3, 15 / 8],
+  },
+};
+
+export const MIN_VOICES = 2;
+export const MAX_VOICES = 4;
+
+/**
+ * Where the notes of a composition are taken from.
+ */
+export interface Harmony {
+  key: KeyName;
+  scale: ScaleName;
+  /** Notes per chord, `MIN_VOICES` to `MAX_VOICES`. */
+  voices: number;
+}
+
+export const DEFAULT_HARMONY: Harmony = {
+  key: "A",
+  scale: "major",
+  voices: 3,
+};
+
+export function isKeyName(value: string): value is KeyName {
+  return (KEY_NAMES as readonly string[]).includes(value);
+}
+
+export function isScaleName(value: string): value is ScaleName {
+  return (SCALE_NAMES as readonly string[]).includes(value);
+}
+
+/**
+ * Validates a chord size.
+ * @throws Error if `voices` is not a whole number from 2 to 4.
+ */
+export function parseVoices(value: number): number {
+  if (!Number.isInteger(value) || value < MIN_VOICES || value > MAX_VOICES) {
+    throw new Error(
+      `Invalid voices: ${value}. Use a whole number from ${MIN_VOICES} to ${MAX_VOICES}.`
+    );
+  }
+  return value;
+}
+
+// --- Pitches ---
+
+/**
+ * Frequency of the key's tonic in the octave from C3 to B3 (A3 = 220 Hz).
+ */
+export function tonicFrequency(key: KeyName): number {
+  return 220 * Math.pow(2, (KEY_NAMES.indexOf(key) - 9) / 12);
+}
+
+/**
+ * Frequency of a scale degree counted from the tonic (degree 0); degrees
+ * past the end of the scale continue in the next octave, negative degrees
+ * go below the tonic.
+ */
+export function degreeFrequency(harmony: Harmony, degree: number): number {
+  const { ratios } = SCALES[harmony.scale];
+  const octave = Math.floor(degree / ratios.length);
+  const step = degree - octave * ratios.length;
+  return tonicFrequency(harmony.key) * Math.pow(2, octave) * ratios[step];
+}
+
+/** Distance between two frequencies in semitones. */
+const interval = (a: number, b: number) => Math.abs(12 * Math.log2(a / b));
+
+/**
+ * The scale degree whose pitch is closest to `frequency`.
+ */
+export function nearestDegree(harmony: Harmony, frequency: number): number {
+  const steps = SCALES[harmony.scale].ratios.length;
+  // Start from the octave below and walk up past the frequency
+  let degree =
+    steps * Math.floor(Math.log2(frequency / tonicFrequency(harmony.key)) - 1);
+  while (
+    interval(degreeFrequency(harmony, degree + 1), frequency) <
+    interval(degreeFrequency(harmony, degree), frequency)
+  ) {
+    degree++;
+  }
+  return degree;
+}
+
+/**
+ * Snaps a frequency to the closest pitch of the scale.
+ */
+export function snapToScale(harmony: Harmony, frequency: number): number {
+  return degreeFrequency(harmony, nearestDegree(harmony, frequency));
+}
+
+// --- Chords ---
+
+/**
+ * Builds a chord of `harmony.voices` notes by stacking every other scale
+ * degree (thirds in major and minor) on `root`, in close position.
+ * @returns Frequencies from the root up.
+ */
+export function buildChord(harmony: Harmony, root: number): number[] {
+  return Array.from({ length: harmony.voices }, (_, voice) =>
+    degreeFrequency(harmony, root + 2 * voice)
+  );
+}
+
+// Voicings stay within two octaves of the key's tonic
+const VOICING_OCTAVES = 2;
+
+/**
+ * Every way of placing the chord's notes within the voicing range.
+ */
+function voicings(chord: number[], low: number, high: number): number[][] {
+  const placements = chord.map((frequency) => {
+    const candidates: number[] = [];
+    let pitch = frequency;
+    while (pitch / 2 >= low) pitch /= 2;
+    for (; pitch <= high; pitch *= 2) candidates.push(pitch);
+    return candidates.length > 0 ? candidates : [frequency];
+  });
+  return placements.reduce<number[][]>(
+    (combinations, candidates) =>
+      combinations.flatMap((combination) =>
+        candidates.map((pitch) => [...combination, pitch])
+      ),
+    [[]]
+  );
+}
+
+/** How far the voices move from one chord to the next, in semitones. */
+function movement(from: number[], to: number[]): number {
+  const nearest = (pitch: number, others: number[]) =>
+    Math.min(...others.map((other) => interval(pitch, other)));
+  return (
+    to.reduce((sum, pitch) => sum + nearest(pitch, from), 0) +
+    from.reduce((sum, pitch) => sum + nearest(pitch, to), 0)
+  );
+}
+
+/**
+ * Voice leading: re-voices `chord` (moving its notes by octaves) so its
+ * voices move as little as possible from the previous chord, keeping
+ * common tones and stepping to the nearest chord tones. Without a previous
+ * chord the close-position chord is returned as is.
+ * @returns Frequencies in chord-tone order (root, third, fifth...).
+ */
+export function voiceLead(
+  harmony: Harmony,
+  chord: number[],
+  previous: number[]
+): number[] {
+  if (previous.length === 0) {
+    return chord;
+  }
+
+  const low = tonicFrequency(harmony.key);
+  const high = low * Math.pow(2, VOICING_OCTAVES);
+  let best = chord;
+  let bestCost = Infinity;
+  for (const voicing of voicings(chord, low, high)) {
+    // Prefer the smallest movement, then the most compact voicing
+    const spread = Math.max(...voicing) / Math.min(...voicing);
+    const cost = movement(previous, voicing) + interval(spread, 1) / 100;
+    if (cost < bestCost) {
+      best = voicing;
+      bestCost = cost;
+    }
+  }
+  return best;
+}
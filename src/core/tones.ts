@@ -0,0 +1,23 @@
+import { createRandom, deriveSeed, randInt } from "./random";
+import {
+  DEFAULT_HARMONY,
+  Harmony,
+  SCALES,
+  buildChord,
+  voiceLead,
+} from "./theory";
+
+/**
+ * Picks the chord accompanying the composition of `seed`: a random degree
+ * of the scale is its root, and it is voiced close to the previous chord.
+ * @param previous Frequencies of the previous chord, for voice leading.
+ */
+export function generateTones(
+  seed: number,
+  harmony: Harmony = DEFAULT_HARMONY,
+  previous: number[] = []
+): number[] {
+  const random = createRandom(deriveSeed(seed, "tones"));
+  const root = randInt(random, 0, SCALES[harmony.scale].ratios.length - 1);
+  return voiceLead(harmony, buildChord(harmony, root), previous);
+}
@@ -0,0 +1,254 @@
+import { Block, ColoredBlock, Composition } from "./composition";
+import {
+  RenderContext,
+  clipToShape,
+  drawComposition,
+  fillBlocks,
+  lineStroke,
+  overlayComposition,
+  strokeLine,
+} from "./render";
+
+// --- Transitions (animating from one composition to the next) ---
+
+export const TRANSITION_NAMES = [
+  "cut",
+  "grow",
+  "fade",
+  "wipe",
+  "morph",
+] as const;
+export type TransitionName = (typeof TRANSITION_NAMES)[number];
+
+export interface Transition {
+  name: TransitionName;
+  description: string;
+  /**
+   * Draws the frame `progress` (0 to 1) of the way from `from` to `to`.
+   * Both compositions have the same size.
+   */
+  draw(
+    ctx: RenderContext,
+    from: Composition,
+    to: Composition,
+    progress: number
+  ): void;
+}
+
+/** Eases in and out (smoothstep). */
+const ease = (t: number) => t * t * (3 - 2 * t);
+
+/** Progress through the part of a transition from `start` to `end`. */
+const span = (progress: number, start: number, end: number) =>
+  Math.min(1, Math.max(0, (progress - start) / (end - start)));
+
+// Share of a transition over which each color field fades in; fields enter
+// left to right, as their notes do
+const FIELD_FADE = 0.3;
+
+/**
+ * How far a block's color field has faded in: blocks further right start
+ * later, following the notes' entry times.
+ */
+const fieldProgress = (block: Block, composition: Composition, t: number) =>
+  span(
+    t,
+    (block.x / composition.width) * (1 - FIELD_FADE),
+    (block.x / composition.width) * (1 - FIELD_FADE) + FIELD_FADE
+  );
+
+/** Fills blocks, each at its own opacity. */
+function fadeBlocks(
+  ctx: RenderContext,
+  blocks: ColoredBlock[],
+  opacity: (block: ColoredBlock) => number
+): void {
+  for (const block of blocks) {
+    ctx.globalAlpha = opacity(block);
+    fillBlocks(ctx, [block]);
+  }
+  ctx.globalAlpha = 1;
+}
+
+/** Parses `#rgb` or `#rrggbb`; other CSS colors are not mixed. */
+function parseHex(color: string): number[] | null {
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color)?.[1];
+  if (!hex) return null;
+  const digits =
+    hex.length === 3 ? hex.replace(/./g, (digit) => digit + digit) : hex;
+  return [0, 2, 4].map((i) => parseInt(digits.slice(i, i + 2), 16));
+}
+
+/**
+ * The color `t` (0 to 1) of the way from `a` to `b`; colors other than hex
+ * switch halfway.
+ */
+function mixColors(a: string, b: string, t: number): string {
+  const from = parseHex(a);
+  const to = parseHex(b);
+  if (!from || !to) {
+    return t < 0.5 ? a : b;
+  }
+  const mixed = from.map((channel, i) =>
+    Math.round(channel + (to[i] - channel) * t)
+  );
+  return `rgb(${mixed.join(", ")})`;
+}
+
+/** The block whose area contains the center of `block`. */
+function containing(blocks: ColoredBlock[], block: Block): ColoredBlock {
+  const x = block.x + block.width / 2;
+  const y = block.y + block.height / 2;
+  return (
+    blocks.find(
+      (other) =>
+        x >= other.x &&
+        x < other.x + other.width &&
+        y >= other.y &&
+        y < other.y + other.height
+    ) ?? blocks[0]
+  );
+}
+
+// --- Strategies ---
+
+const cut: Transition = {
+  name: "cut",
+  description: "Switches to the next composition at once.",
+  draw: (ctx, from, to, progress) =>
+    drawComposition(ctx, progress > 0 ? to : from),
+};
+
+const grow: Transition = {
+  name: "grow",
+  description:
+    "Lines grow from their split points in the order they were made, then the color fields fade in, left to right.",
+  draw: (ctx, _from, to, progress) => {
+    ctx.clearRect(0, 0, to.width, to.height);
+    ctx.save();
+    clipToShape(ctx, to);
+    ctx.fillStyle = to.background;
+    ctx.fillRect(0, 0, to.width, to.height);
+
+    // Color fields over the second half, behind the lines
+    const fields = span(progress, 0.5, 1);
+    fadeBlocks(ctx, to.blocks, (block) =>
+      ease(fieldProgress(block, to, fields))
+    );
+
+    // Each line starts growing a little after the one before it
+    lineStroke(ctx, to);
+    const lines = to.lines.length;
+    to.lines.forEach((line, i) => {
+      const start = (i / lines) * 0.4;
+      const length = ease(span(progress, start, start + 0.3));
+      if (length > 0) strokeLine(ctx, line, length);
+    });
+
+    fadeBlocks(ctx, to.accents, () => fields);
+    ctx.restore();
+  },
+};
+
+const fade: Transition = {
+  name: "fade",
+  description: "Cross-fades from one composition to the next.",
+  draw: (ctx, from, to, progress) => {
+    drawComposition(ctx, from);
+    ctx.globalAlpha = ease(progress);
+    overlayComposition(ctx, to);
+    ctx.globalAlpha = 1;
+  },
+};
+
+const wipe: Transition = {
+  name: "wipe",
+  description: "Wipes the next composition in from left to right.",
+  draw: (ctx, from, to, progress) => {
+    drawComposition(ctx, from);
+    const x = to.width * ease(progress);
+    ctx.save();
+    ctx.beginPath();
+    ctx.moveTo(0, 0);
+    ctx.lineTo(x, 0);
+    ctx.lineTo(x, to.height);
+    ctx.lineTo(0, to.height);
+    ctx.closePath();
+    ctx.clip();
+    // Clearing is clipped too, so only the wiped part is redrawn
+    drawComposition(ctx, to);
+    ctx.restore();
+  },
+};
+
+const morph: Transition = {
+  name: "morph",
+  description:
+    "Each block of the next composition grows out of the block it starts in, shifting color; lines fade across.",
+  draw: (ctx, from, to, progress) => {
+    const t = ease(progress);
+    ctx.clearRect(0, 0, to.width, to.height);
+    ctx.save();
+    clipToShape(ctx, t < 0.5 ? from : to);
+    ctx.fillStyle = mixColors(from.background, to.background, t);
+    ctx.fillRect(0, 0, to.width, to.height);
+
+    // Blocks of the old tree no block grows out of fade away
+    const sources = new Set(
+      to.blocks.map((block) => containing(from.blocks, block))
+    );
+    fadeBlocks(
+      ctx,
+      from.blocks.filter((block) => !sources.has(block)),
+      () => 1 - t
+    );
+
+    for (const block of to.blocks) {
+      const source = containing(from.blocks, block);
+      const lerp = (a: number, b: number) => a + (b - a) * t;
+      ctx.fillStyle = mixColors(source.color, block.color, t);
+      ctx.fillRect(
+        lerp(source.x, block.x),
+        lerp(source.y, block.y),
+        lerp(source.width, block.width),
+        lerp(source.height, block.height)
+      );
+    }
+
+    lineStroke(ctx, from);
+    ctx.globalAlpha = 1 - t;
+    from.lines.forEach((line) => strokeLine(ctx, line));
+    fadeBlocks(ctx, from.accents, () => 1 - t);
+    lineStroke(ctx, to);
+    ctx.globalAlpha = t;
+    to.lines.forEach((line) => strokeLine(ctx, line));
+    fadeBlocks(ctx, to.accents, () => t);
+    ctx.restore();
+  },
+};
+
+export const TRANSITIONS: Record<TransitionName, Transition> = {
+  cut,
+  grow,
+  fade,
+  wipe,
+  morph,
+};
+
+export function isTransitionName(value: string): value is TransitionName {
+  return (TRANSITION_NAMES as readonly string[]).includes(value);
+}
+
+/**
+ * Draws one frame of a transition between two compositions of the same
+ * size; `progress` runs from 0 (all `from`) to 1 (all `to`).
+ */
+export function drawTransition(
+  ctx: RenderContext,
+  from: Composition,
+  to: Composition,
+  name: TransitionName,
+  progress: number
+): void {
+  TRANSITIONS[name].draw(ctx, from, to, Math.min(1, Math.max(0, progress)));
+}
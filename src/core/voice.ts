@@ -0,0 +1,179 @@
+import { Waveform } from "./sonification";
+
+// --- Voice Engine (how notes sound, in Web Audio and PCM alike) ---
+
+/** Attack, decay and release in seconds; sustain as a share of the peak. */
+export interface Envelope {
+  attack: number;
+  decay: number;
+  sustain: number;
+  release: number;
+}
+
+export interface VoiceSettings {
+  name: string;
+  /** Overrides the waveform chosen by the sonification. */
+  waveform?: Waveform;
+  envelope: Envelope;
+  /** Spread in cents between two detuned oscillators; 0 for one. */
+  detune: number;
+  /** Low-pass filter cutoff in Hz. */
+  cutoff: number;
+}
+
+/** Master bus effects, each mixed in from 0 (dry) to 1. */
+export interface EffectsSettings {
+  reverb: number;
+  delay: number;
+  /** Seconds between echoes. */
+  delayTime: number;
+  /** Share of each echo fed back into the next, 0 to 1. */
+  delayFeedback: number;
+}
+
+export const VOICE_NAMES = ["pure", "pad", "pluck", "organ", "retro"] as const;
+export type VoiceName = (typeof VOICE_NAMES)[number];
+
+export const VOICES: Record<VoiceName, VoiceSettings> = {
+  // Clean tones with just enough envelope to avoid clicks
+  pure: {
+    name: "pure",
+    envelope: { attack: 0.02, decay: 0.1, sustain: 0.9, release: 0.3 },
+    detune: 0,
+    cutoff: 12000,
+  },
+  pad: {
+    name: "pad",
+    waveform: "sawtooth",
+    envelope: { attack: 0.8, decay: 0.5, sustain: 0.7, release: 1.2 },
+    detune: 12,
+    cutoff: 1800,
+  },
+  pluck: {
+    name: "pluck",
+    waveform: "triangle",
+    envelope: { attack: 0.005, decay: 0.6, sustain: 0.1, release: 0.4 },
+    detune: 4,
+    cutoff: 4000,
+  },
+  organ: {
+    name: "organ",
+    waveform: "additive",
+    envelope: { attack: 0.03, decay: 0.05, sustain: 1, release: 0.15 },
+    detune: 0,
+    cutoff: 8000,
+  },
+  retro: {
+    name: "retro",
+    waveform: "square",
+    envelope: { attack: 0.01, decay: 0.2, sustain: 0.6, release: 0.2 },
+    detune: 6,
+    cutoff: 3000,
+  },
+};
+
+export const DEFAULT_VOICE = VOICES.pure;
+
+export const DEFAULT_EFFECTS: EffectsSettings = {
+  reverb: 0.2,
+  delay: 0,
+  delayTime: 0.375,
+  delayFeedback: 0.35,
+};
+
+export function isVoiceName(value: string): value is VoiceName {
+  return (VOICE_NAMES as readonly string[]).includes(value);
+}
+
+// Relative amplitudes of the harmonics of the "additive" waveform
+export const ADDITIVE_HARMONICS = [1, 0.5, 0.33, 0.25, 0.12, 0.08];
+const ADDITIVE_TOTAL = ADDITIVE_HARMONICS.reduce((sum, a) => sum + a, 0);
+
+/** Butterworth response, no resonance. */
+export const FILTER_Q = Math.SQRT1_2;
+
+/**
+ * One sample of a waveform at `phase` (in cycles), matching the Web Audio
+ * oscillator types (and the periodic wave of "additive").
+ */
+export function oscillate(waveform: Waveform, phase: number): number {
+  const t = phase - Math.floor(phase);
+  switch (waveform) {
+    case "sine":
+      return Math.sin(2 * Math.PI * t);
+    case "triangle":
+      return t < 0.25 ? 4 * t : t < 0.75 ? 2 - 4 * t : 4 * t - 4;
+    case "square":
+      return t < 0.5 ? 1 : -1;
+    case "sawtooth":
+      return t < 0.5 ? 2 * t : 2 * t - 2;
+    case "additive":
+      return (
+        ADDITIVE_HARMONICS.reduce(
+          (sum, amplitude, i) =>
+            sum + amplitude * Math.sin(2 * Math.PI * (i + 1) * t),
+          0
+        ) / ADDITIVE_TOTAL
+      );
+  }
+}
+
+/**
+ * Breakpoints `[time, level]` of a note's envelope, joined by linear
+ * segments exactly as scheduled on a Web Audio `AudioParam`. Notes end
+ * after `duration`, release included; a note too short for its whole
+ * envelope releases from wherever it got to.
+ */
+export function envelopePoints(
+  envelope: Envelope,
+  duration: number
+): [number, number][] {
+  const { attack, decay, sustain, release } = envelope;
+  const held = (t: number) => {
+    if (t < attack) return t / attack;
+    if (t < attack + decay) return 1 - ((t - attack) / decay) * (1 - sustain);
+    return sustain;
+  };
+
+  const releaseStart = Math.max(
+    Math.min(attack, duration / 2),
+    duration - release
+  );
+  const points: [number, number][] = [[0, 0]];
+  if (attack < releaseStart) points.push([attack, 1]);
+  if (attack + decay < releaseStart) points.push([attack + decay, sustain]);
+  points.push([releaseStart, held(releaseStart)], [duration, 0]);
+  return points;
+}
+
+/**
+ * Level of a piecewise-linear envelope at `time`.
+ */
+export function envelopeLevel(
+  points: [number, number][],
+  time: number
+): number {
+  for (let i = 1; i < points.length; i++) {
+    const [t1, level1] = points[i];
+    if (time < t1) {
+      const [t0, level0] = points[i - 1];
+      return level0 + ((level1 - level0) * (time - t0)) / (t1 - t0);
+    }
+  }
+  return 0;
+}
+
+/**
+ * Frequencies of a note's oscillators: the note itself, or two copies
+ * detuned by half the spread each way.
+ */
+export function detunedFrequencies(
+  frequency: number,
+  detune: number
+): number[] {
+  if (detune === 0) {
+    return [frequency];
+  }
+  const ratio = Math.pow(2, detune / 2 / 1200);
+  return [frequency / ratio, frequency * ratio];
+}
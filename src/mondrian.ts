@@ -0,0 +1,65 @@
+#!/usr/bin/env node
+import { Command } from "commander";
+import { audioCommand } from "./cli/audio";
+import {
+  CONFIG_FILES,
+  applyConfig,
+  applyEnvironment,
+  loadConfig,
+  validateConfig,
+} from "./cli/config";
+import { batchCommand, imageCommand } from "./cli/image";
+import { inspectCommand } from "./cli/inspect";
+import { fail } from "./cli/options";
+import { renderCommand } from "./cli/render";
+import { serveCommand } from "./cli/serve";
+import { videoCommand } from "./cli/video";
+
+// --- The `mondrian` CLI ---
+
+const program = new Command("mondrian");
+
+program
+  .version("1.0.0")
+  .description(
+    "Generate Piet Mondrian-style images, sound and video, or serve the web app."
+  )
+  .option(
+    "--config <file>",
+    `Config file (JSON or YAML). Default: ${CONFIG_FILES.join(
+      ", "
+    )} in the working directory, if any.`
+  )
+  .addCommand(imageCommand())
+  .addCommand(batchCommand())
+  .addCommand(renderCommand())
+  .addCommand(inspectCommand())
+  .addCommand(videoCommand())
+  .addCommand(audioCommand())
+  .addCommand(serveCommand())
+  .addHelpText(
+    "after",
+    "\nOption values come from the command line, then MONDRIAN_<OPTION> environment variables (e.g. MONDRIAN_LINE_WEIGHT), then the config file, then the defaults."
+  );
+
+// Options not given on the command line come from the environment, then
+// from the config file
+program.hook("preAction", (_, actionCommand) => {
+  try {
+    applyEnvironment(program);
+    applyEnvironment(actionCommand);
+
+    const loaded = loadConfig(program.opts().config);
+    if (loaded) {
+      validateConfig(program, loaded);
+      applyConfig(actionCommand, loaded.config);
+    }
+  } catch (error) {
+    fail((error as Error).message);
+  }
+});
+
+// Actions are async: errors they throw end the run like invalid input
+program
+  .parseAsync(process.argv)
+  .catch((error) => fail((error as Error).message));
@@ -0,0 +1,466 @@
+import { createHash } from "crypto";
+import * as http from "http";
+import {
+  CompositionParams,
+  DEFAULT_EFFECTS,
+  DEFAULT_HARMONY,
+  DEFAULT_PARAM_RANGES,
+  DEFAULT_VOICE,
+  DOCUMENT_VERSION,
+  EffectsSettings,
+  Harmony,
+  KEY_NAMES,
+  LAYOUT_NAMES,
+  PALETTES,
+  PARAM_LIMITS,
+  ParamRange,
+  SCALE_NAMES,
+  SONIFICATION_NAMES,
+  SonificationName,
+  TONE_DURATION,
+  VOICES,
+  VOICE_NAMES,
+  VoiceName,
+  VoiceSettings,
+  compositionMetadata,
+  compositionParams,
+  createDocument,
+  generateComposition,
+  parseRuleNames,
+  parseSeed,
+  parseVoices,
+  randomSeed,
+  renderSession,
+  renderSvg,
+  serializeDocument,
+  sonify,
+} from "../core";
+import { renderPng } from "./image";
+import { SAMPLE_RATE, encodeWav } from "./sound";
+
+// --- Render API (compositions and their sound over HTTP) ---
+
+export interface RenderApiOptions {
+  /** Largest width or height served, in pixels. */
+  maxSize: number;
+  /** Longest sound served, in seconds. */
+  maxDuration: number;
+  /** Bytes of responses kept in memory for repeated requests. */
+  cacheSize: number;
+}
+
+export const DEFAULT_API_OPTIONS: RenderApiOptions = {
+  maxSize: 4096,
+  maxDuration: 30,
+  cacheSize: 64 * 1024 * 1024,
+};
+
+const ENDPOINTS: Record<string, string> = {
+  "/composition.png": "image/png",
+  "/composition.svg": "image/svg+xml",
+  "/composition.json": "application/json",
+  "/tone.wav": "audio/wav",
+};
+
+// Every endpoint takes the composition's parameters; only tone.wav takes
+// the sound's
+const COMPOSITION_PARAMS = [
+  "seed",
+  "depth",
+  "colorChance",
+  "lineWeight",
+  "width",
+  "height",
+  "palette",
+  "lineColor",
+  "layout",
+  "rules",
+  "lineVariance",
+  "lineFalloff",
+  "doubleLines",
+  "partialLines",
+  "sonification",
+];
+const SOUND_PARAMS = [
+  "key",
+  "scale",
+  "voices",
+  "voice",
+  "reverb",
+  "delay",
+  "duration",
+];
+
+// Compositions are 1080p unless sized; a lone width or height keeps 16:9
+const DEFAULT_WIDTH = 1920;
+const DEFAULT_HEIGHT = 1080;
+
+// Responses change with the generator and renderer, so their version is
+// part of every cache key and ETag
+const RENDERER_VERSION = `${
+  require("../../package.json").version
+}+document${DOCUMENT_VERSION}`;
+
+// Clients revalidate with the ETag after a day, so a new version is picked
+// up without a query ever changing
+const CACHE_CONTROL = "public, max-age=86400";
+
+// Palette files are never read on request
+const PALETTE_NAMES = Object.keys(PALETTES) as (keyof typeof PALETTES)[];
+
+export interface RenderApi {
+  /**
+   * Answers `request` if it is for one of the API's endpoints.
+   * @returns false for any other path, leaving the response untouched.
+   */
+  handle(
+    request: http.IncomingMessage,
+    response: http.ServerResponse
+  ): Promise<boolean>;
+}
+
+/**
+ * Reads a query's parameters, checking each against its allowed values.
+ * @throws Error naming the parameter for anything unknown, repeated or
+ * out of range.
+ */
+function readQuery(query: URLSearchParams, allowed: string[]) {
+  const unknown = [...new Set(query.keys())].filter(
+    (name) => !allowed.includes(name)
+  );
+  if (unknown.length > 0) {
+    throw new Error(`Unknown parameter(s): ${unknown.join(", ")}.`);
+  }
+
+  const text = (name: string): string | undefined => {
+    const values = query.getAll(name);
+    if (values.length > 1) {
+      throw new Error(`${name} is given more than once.`);
+    }
+    return values[0];
+  };
+  const number = (
+    name: string,
+    { min, max }: { min: number; max?: number },
+    integer = false
+  ): number | undefined => {
+    const value = text(name);
+    if (value === undefined) return undefined;
+    const number = value.trim() === "" ? NaN : Number(value);
+    if (
+      !Number.isFinite(number) ||
+      (integer && !Number.isInteger(number)) ||
+      number < min ||
+      (max !== undefined && number > max)
+    ) {
+      throw new Error(
+        `${name} must be a ${integer ? "whole " : ""}number ${
+          max === undefined ? `of at least ${min}` : `from ${min} to ${max}`
+        }, got "${value}".`
+      );
+    }
+    return number;
+  };
+  const choice = <T extends string>(
+    name: string,
+    names: readonly T[],
+    fallback: T
+  ): T => {
+    const value = text(name);
+    if (value === undefined) return fallback;
+    if (!(names as readonly string[]).includes(value)) {
+      throw new Error(
+        `${name} must be one of ${names.join(", ")}, got "${value}".`
+      );
+    }
+    return value as T;
+  };
+
+  return { text, number, choice };
+}
+
+/** What a request asks for, validated. */
+interface ApiRequest {
+  endpoint: string;
+  params: CompositionParams;
+  sonification: SonificationName;
+  /** For tone.wav only. */
+  sound?: {
+    duration: number;
+    harmony: Harmony;
+    voice: VoiceSettings;
+    effects: EffectsSettings;
+  };
+}
+
+/**
+ * Reads what a query asks for: the CLI's parameters by the same names, so
+ * the same query always draws the same composition as `mondrian image`.
+ * Only palette presets are served, never palette files.
+ * @throws Error if a parameter is invalid.
+ */
+function readRequest(
+  endpoint: string,
+  searchParams: URLSearchParams,
+  { maxSize, maxDuration }: RenderApiOptions
+): ApiRequest {
+  const query = readQuery(searchParams, [
+    ...COMPOSITION_PARAMS,
+    ...(endpoint === "/tone.wav" ? SOUND_PARAMS : []),
+  ]);
+  const seedText = query.text("seed") ?? "";
+  if (seedText.trim() === "") {
+    throw new Error("seed must be a number or text.");
+  }
+
+  const size = { min: 1, max: maxSize };
+  const givenWidth = query.number("width", size, true);
+  const givenHeight = query.number("height", size, true);
+  const width =
+    givenWidth ??
+    (givenHeight
+      ? Math.min(maxSize, Math.round((givenHeight * 16) / 9))
+      : DEFAULT_WIDTH);
+  const height =
+    givenHeight ??
+    (givenWidth
+      ? Math.max(1, Math.round((givenWidth * 9) / 16))
+      : DEFAULT_HEIGHT);
+
+  const fixed = (value: number | undefined, range: ParamRange) =>
+    value === undefined ? range : { min: value, max: value };
+  const fraction = { min: 0, max: 1 };
+  const lineColor = query.text("lineColor");
+  if (
+    lineColor !== undefined &&
+    !/^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(lineColor)
+  ) {
+    throw new Error(
+      `lineColor must be a hex color like #1B1B1B, got "${lineColor}".`
+    );
+  }
+  const rules = query.text("rules");
+  const sonification = query.choice(
+    "sonification",
+    SONIFICATION_NAMES,
+    "timbre"
+  );
+
+  const params = compositionParams(parseSeed(seedText), width, height, {
+    depth: fixed(
+      query.number("depth", PARAM_LIMITS.depth, true),
+      DEFAULT_PARAM_RANGES.depth
+    ),
+    colorChance: fixed(
+      query.number("colorChance", PARAM_LIMITS.colorChance),
+      DEFAULT_PARAM_RANGES.colorChance
+    ),
+    lineWeight: fixed(
+      query.number("lineWeight", PARAM_LIMITS.lineWeight, true),
+      DEFAULT_PARAM_RANGES.lineWeight
+    ),
+    palette: PALETTES[query.choice("palette", PALETTE_NAMES, "classic")],
+    lineColor,
+    rules: rules ? parseRuleNames(rules) : [],
+    lineStyle: {
+      variance: query.number("lineVariance", fraction),
+      falloff: query.number("lineFalloff", fraction),
+      doubleLineChance: query.number("doubleLines", fraction),
+      partialLineChance: query.number("partialLines", fraction),
+    },
+    layout: query.choice("layout", LAYOUT_NAMES, "bisection"),
+    sonification,
+  });
+  if (endpoint !== "/tone.wav") {
+    return { endpoint, params, sonification };
+  }
+
+  const voices = query.number("voices", { min: 0 }, true);
+  return {
+    endpoint,
+    params,
+    sonification,
+    sound: {
+      duration:
+        query.number("duration", { min: 0.1, max: maxDuration }) ??
+        Math.min(TONE_DURATION, maxDuration),
+      harmony: {
+        key: query.choice("key", KEY_NAMES, DEFAULT_HARMONY.key),
+        scale: query.choice("scale", SCALE_NAMES, DEFAULT_HARMONY.scale),
+        voices:
+          voices === undefined ? DEFAULT_HARMONY.voices : parseVoices(voices),
+      },
+      voice:
+        VOICES[
+          query.choice("voice", VOICE_NAMES, DEFAULT_VOICE.name as VoiceName)
+        ],
+      effects: {
+        ...DEFAULT_EFFECTS,
+        reverb: query.number("reverb", fraction) ?? DEFAULT_EFFECTS.reverb,
+        delay: query.number("delay", fraction) ?? DEFAULT_EFFECTS.delay,
+      },
+    },
+  };
+}
+
+/**
+ * Renders what a request asks for: the composition as PNG, SVG (both with
+ * the parameters embedded) or document, or its sound as a WAV file.
+ */
+async function render({
+  endpoint,
+  params,
+  sonification,
+  sound,
+}: ApiRequest): Promise<Buffer> {
+  const composition = generateComposition(params);
+
+  if (sound) {
+    const notes = sonify(composition, sonification, {
+      duration: sound.duration,
+      harmony: sound.harmony,
+    });
+    const audio = renderSession([notes], {
+      sampleRate: SAMPLE_RATE,
+      duration: sound.duration,
+      crossfade: Math.min(0.5, sound.duration),
+      voice: sound.voice,
+      effects: sound.effects,
+    });
+    return encodeWav(audio, { sampleRate: SAMPLE_RATE, channels: 2 });
+  }
+
+  const metadata = compositionMetadata(params);
+  switch (endpoint) {
+    case "/composition.png":
+      return renderPng(composition, undefined, metadata);
+    case "/composition.svg":
+      return Buffer.from(renderSvg(composition, { metadata }));
+    default:
+      return Buffer.from(
+        serializeDocument(
+          createDocument(composition, sonify(composition, sonification))
+        )
+      );
+  }
+}
+
+/**
+ * A cache of responses by key, dropping the least recently used ones past
+ * `maxBytes`.
+ */
+function createCache(maxBytes: number) {
+  const entries = new Map<string, Buffer>();
+  let bytes = 0;
+  return {
+    get(key: string): Buffer | undefined {
+      const body = entries.get(key);
+      if (body) {
+        // Move to the back: most recently used
+        entries.delete(key);
+        entries.set(key, body);
+      }
+      return body;
+    },
+    set(key: string, body: Buffer): void {
+      if (body.length > maxBytes || entries.has(key)) return;
+      entries.set(key, body);
+      bytes += body.length;
+      for (const [oldest, entry] of entries) {
+        if (bytes <= maxBytes) break;
+        entries.delete(oldest);
+        bytes -= entry.length;
+      }
+    },
+  };
+}
+
+const sendError = (
+  response: http.ServerResponse,
+  status: number,
+  message: string
+) => {
+  response.writeHead(status, {
+    "Content-Type": "application/json",
+    "Cache-Control": "no-store",
+  });
+  response.end(JSON.stringify({ error: message }) + "\n");
+};
+
+/**
+ * Creates the render API: `GET /composition.png`, `.svg` and `.json` and
+ * `GET /tone.wav`, each taking the composition's parameters as a query.
+ * Everything renders locally. A response only depends on its query and the
+ * renderer's version, so responses are cached in memory and by clients
+ * (with an ETag); a query
+ * without a seed is redirected to one with a random seed.
+ */
+export function createRenderApi(
+  apiOptions: Partial<RenderApiOptions> = {}
+): RenderApi {
+  const options = { ...DEFAULT_API_OPTIONS, ...apiOptions };
+  const cache = createCache(options.cacheSize);
+
+  return {
+    async handle(request, response) {
+      const url = new URL(request.url ?? "/", "http://localhost");
+      const endpoint = url.pathname;
+      const contentType = ENDPOINTS[endpoint];
+      if (!contentType) {
+        return false;
+      }
+
+      if (!url.searchParams.has("seed")) {
+        url.searchParams.set("seed", String(randomSeed()));
+        response.writeHead(302, {
+          Location: `${url.pathname}${url.search}`,
+          "Cache-Control": "no-store",
+        });
+        response.end();
+        return true;
+      }
+
+      // Parameters in a fixed order, so equal queries share a cache entry
+      url.searchParams.sort();
+      const key = `${RENDERER_VERSION} ${endpoint}?${url.searchParams}`;
+      const etag = `"${createHash("sha1")
+        .update(key)
+        .digest("hex")
+        .slice(0, 20)}"`;
+
+      const headers = {
+        ETag: etag,
+        "Cache-Control": CACHE_CONTROL,
+      };
+      // Only successful responses carry the ETag, so a match is still valid
+      if (request.headers["if-none-match"] === etag) {
+        response.writeHead(304, headers);
+        response.end();
+        return true;
+      }
+
+      let body = cache.get(key);
+      const hit = body !== undefined;
+      if (!body) {
+        let apiRequest: ApiRequest;
+        try {
+          apiRequest = readRequest(endpoint, url.searchParams, options);
+        } catch (error) {
+          sendError(response, 400, (error as Error).message);
+          return true;
+        }
+        body = await render(apiRequest);
+        cache.set(key, body);
+      }
+
+      response.writeHead(200, {
+        ...headers,
+        "X-Cache": hit ? "HIT" : "MISS",
+        "Content-Type": contentType,
+        "Content-Length": body.length,
+      });
+      response.end(request.method === "HEAD" ? undefined : body);
+      return true;
+    },
+  };
+}
@@ -1,78 +1,115 @@
 import * as fs from "fs";
-import * as wav from "wav";
+import * as os from "os";
+import * as path from "path";
 import player from "play-sound";
+import {
+  DEFAULT_EFFECTS,
+  DEFAULT_HARMONY,
+  DEFAULT_VOICE,
+  EffectsSettings,
+  Harmony,
+  Note,
+  SonificationName,
+  TONE_DURATION,
+  VoiceSettings,
+  generateComposition,
+  nextSeed,
+  randomParams,
+  randomSeed,
+  renderNotes,
+  sonify,
+} from "../core";
+import { SAMPLE_RATE, writeWav } from "./sound";
+
+// Compositions are sonified at the CLI's default 4K size
+const WIDTH = 3840;
+const HEIGHT = 2160;
+
+// --- Tone Generator (plays compositions' sound live) ---
+
+/** Defaults: "timbre", A major triads, the "pure" voice, a little reverb. */
+export interface ToneGeneratorOptions {
+  sonification?: SonificationName;
+  harmony?: Harmony;
+  voice?: VoiceSettings;
+  effects?: EffectsSettings;
+}
 
-class ToneGenerator {
+export class ToneGenerator {
   private isRunning: boolean = false;
   private intervalId: NodeJS.Timeout | null = null;
   private audioPlayer = player({});
-  private readonly sampleRate = 44100;
-  private readonly duration = 5; // seconds
-  private readonly tempFilePath = "temp_tone.wav";
-
-  private generatePCM(frequencies: number[]): Buffer {
-    const numSamples = this.sampleRate * this.duration;
-    const buffer = Buffer.alloc(numSamples * 2); // 16-bit samples
-
-    for (let i = 0; i < numSamples; i++) {
-      let sample = 0;
-      for (const frequency of frequencies) {
-        sample += Math.sin((2 * Math.PI * i * frequency) / this.sampleRate);
-      }
-      // Average the samples and apply some gain
-      const amplitude = (sample / frequencies.length) * 16383; // Max amplitude for 16-bit audio is 32767
-
-      buffer.writeInt16LE(amplitude, i * 2);
-    }
-
-    return buffer;
+  private readonly sampleRate = SAMPLE_RATE;
+  private readonly duration = TONE_DURATION; // seconds
+  private seed: number;
+  private sonification: SonificationName;
+  private harmony: Harmony;
+  private voice: VoiceSettings;
+  private effects: EffectsSettings;
+  private previousNotes: Note[] = [];
+
+  /**
+   * @param seed Seed of the first composition; follows the same seed
+   * sequence as the web app.
+   */
+  constructor(seed: number = randomSeed(), options: ToneGeneratorOptions = {}) {
+    this.seed = seed;
+    this.sonification = options.sonification ?? "timbre";
+    this.harmony = options.harmony ?? DEFAULT_HARMONY;
+    this.voice = options.voice ?? DEFAULT_VOICE;
+    this.effects = options.effects ?? DEFAULT_EFFECTS;
   }
 
-  private createWavFile(pcmData: Buffer): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const fileWriter = new wav.Writer({
-        channels: 1,
+  /**
+   * Plays the notes from a WAV file in a temporary directory of their own,
+   * so concurrent runs never share a file; removes it once played.
+   * @throws Error if the file cannot be written or played.
+   */
+  private async playNotes(notes: Note[]): Promise<void> {
+    const audio = renderNotes(notes, {
+      sampleRate: this.sampleRate,
+      duration: this.duration,
+      voice: this.voice,
+      effects: this.effects,
+    });
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "mondrian-"));
+    try {
+      const file = path.join(dir, "tone.wav");
+      await writeWav(file, audio, {
         sampleRate: this.sampleRate,
-        bitDepth: 16,
+        channels: 2,
       });
-
-      const fileStream = fs.createWriteStream(this.tempFilePath);
-      fileWriter.pipe(fileStream);
-      fileWriter.write(pcmData);
-      fileWriter.end(() => resolve());
-
-      fileStream.on("error", (err) => reject(err));
-    });
+      await new Promise<void>((resolve, reject) =>
+        this.audioPlayer.play(file, (err) => (err ? reject(err) : resolve()))
+      );
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
   }
 
-  private async playTone(frequencies: number[]): Promise<void> {
-    const pcmData = this.generatePCM(frequencies);
-    await this.createWavFile(pcmData);
-
-    this.audioPlayer.play(this.tempFilePath, (err) => {
-      if (err) {
-        console.error("Failed to play sound:", err);
-      }
-      fs.unlinkSync(this.tempFilePath); // Clean up the temporary file
+  private async generateSound(): Promise<void> {
+    console.log(`Seed: ${this.seed}`);
+    const composition = generateComposition(
+      randomParams(this.seed, WIDTH, HEIGHT)
+    );
+    // Voice-led from the previous composition's notes
+    const notes = sonify(composition, this.sonification, {
+      harmony: this.harmony,
+      previous: this.previousNotes.map((note) => note.frequency),
     });
-  }
-
-  private getRandomFrequency(): number {
-    return Math.random() * (880 - 220) + 220; // A3 to A5
-  }
-
-  private generateSound(): void {
-    const shouldPlayCombination = Math.random() > 0.5;
-    let frequencies: number[];
-
-    if (shouldPlayCombination) {
-      console.log("Playing a combination of tones...");
-      frequencies = [this.getRandomFrequency(), this.getRandomFrequency()];
-    } else {
-      console.log("Playing a single tone...");
-      frequencies = [this.getRandomFrequency()];
+    this.previousNotes = notes;
+    this.seed = nextSeed(this.seed);
+
+    console.log(
+      `Playing ${notes.length} note(s): ${notes
+        .map((note) => `~${Math.round(note.frequency)}Hz`)
+        .join(", ")}`
+    );
+    try {
+      await this.playNotes(notes);
+    } catch (error) {
+      console.error("Failed to play sound:", error);
     }
-    this.playTone(frequencies);
   }
 
   public start(): void {
@@ -91,11 +128,3 @@ class ToneGenerator {
     console.log("\nStopping tone generator.");
   }
 }
-
-const toneGenerator = new ToneGenerator();
-toneGenerator.start();
-
-process.on("SIGINT", () => {
-  toneGenerator.stop();
-  process.exit();
-});
@@ -0,0 +1,8 @@
+import { parentPort } from "worker_threads";
+import { BatchJob, runJob } from "./batch";
+
+// --- Batch Worker: renders the jobs posted by `runBatch`, one at a time ---
+
+parentPort?.on("message", async (job: BatchJob) => {
+  parentPort?.postMessage(await runJob(job));
+});
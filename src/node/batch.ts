@@ -0,0 +1,145 @@
+import * as path from "path";
+import { Worker } from "worker_threads";
+import { CompositionParams } from "../core";
+import { ArtImageOptions, generateArtImage } from "./image";
+
+// --- Batch Generation (optionally across worker threads) ---
+
+export interface BatchJob {
+  /** 1-based position in the batch. */
+  index: number;
+  /** Output path without extension. */
+  outputBase: string;
+  params: CompositionParams;
+  options: ArtImageOptions;
+}
+
+export type BatchResult =
+  | { job: BatchJob; ok: true; written: string[] }
+  | { job: BatchJob; ok: false; error: string };
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * Renders a single job, turning any error into a failed result.
+ */
+export async function runJob(job: BatchJob): Promise<BatchResult> {
+  try {
+    const written = await generateArtImage(
+      job.outputBase,
+      job.params,
+      job.options
+    );
+    return { job, ok: true, written };
+  } catch (error) {
+    return { job, ok: false, error: errorMessage(error) };
+  }
+}
+
+/**
+ * Starts a batch worker. Under ts-node the worker source is TypeScript too,
+ * so it is loaded through a small eval script that registers ts-node first.
+ * ts-node and its tsconfig.json are found from here, as eval scripts
+ * otherwise look for them from the cwd.
+ */
+function spawnWorker(): Worker {
+  const file = path.join(__dirname, `batch-worker${path.extname(__filename)}`);
+  if (file.endsWith(".ts")) {
+    return new Worker(
+      `require(${JSON.stringify(require.resolve("ts-node"))}).register({
+         transpileOnly: true,
+         projectSearchDir: ${JSON.stringify(__dirname)},
+       });
+       require(${JSON.stringify(file)});`,
+      { eval: true }
+    );
+  }
+  return new Worker(file);
+}
+
+/**
+ * Renders all jobs, at most `concurrency` at a time. A concurrency of 1
+ * renders in-process; anything higher spreads the jobs over that many
+ * worker threads. A failing job (or a crashing worker) never stops the
+ * batch; its failure is reported like any other result.
+ * @param onResult Called as each job finishes, in completion order.
+ * @returns The results in job order.
+ */
+export async function runBatch(
+  jobs: BatchJob[],
+  concurrency: number,
+  onResult: (result: BatchResult) => void = () => {}
+): Promise<BatchResult[]> {
+  const results: BatchResult[] = new Array(jobs.length);
+
+  if (concurrency <= 1) {
+    for (const [i, job] of jobs.entries()) {
+      results[i] = await runJob(job);
+      onResult(results[i]);
+    }
+    return results;
+  }
+
+  let next = 0;
+  const finish = (i: number, result: BatchResult) => {
+    results[i] = result;
+    onResult(result);
+  };
+
+  // Each lane owns one worker and pulls the next job when it's idle
+  const lane = async (): Promise<void> => {
+    let worker = spawnWorker();
+    try {
+      while (next < jobs.length) {
+        const i = next++;
+        try {
+          finish(i, await runInWorker(worker, jobs[i]));
+        } catch (error) {
+          // The worker died mid-job: fail the job and carry on with a new one
+          finish(i, { job: jobs[i], ok: false, error: errorMessage(error) });
+          await worker.terminate();
+          worker = spawnWorker();
+        }
+      }
+    } finally {
+      await worker.terminate();
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, jobs.length) }, lane)
+  );
+  return results;
+}
+
+/**
+ * Sends a job to an idle worker and waits for its result.
+ * @throws Error if the worker crashes or exits before answering.
+ */
+function runInWorker(worker: Worker, job: BatchJob): Promise<BatchResult> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      worker.off("message", onMessage);
+      worker.off("error", onError);
+      worker.off("exit", onExit);
+    };
+    const onMessage = (result: BatchResult) => {
+      cleanup();
+      resolve(result);
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+    const onExit = (code: number) => {
+      cleanup();
+      reject(new Error(`Worker exited unexpectedly with code ${code}.`));
+    };
+
+    worker.on("message", onMessage);
+    worker.on("error", onError);
+    worker.on("exit", onExit);
+    worker.postMessage(job);
+  });
+}
@@ -0,0 +1,21 @@
+import type { Canvas } from "canvas";
+
+// --- node-canvas (loaded on first use) ---
+
+/**
+ * Creates a node-canvas canvas. node-canvas is a native module, so it is
+ * only loaded here, when something is drawn: commands that never draw
+ * (audio, inspect, serve's SVG and sound endpoints) run without it.
+ * @throws Error if node-canvas is not built for this platform.
+ */
+export function createCanvas(width: number, height: number): Canvas {
+  let nodeCanvas: typeof import("canvas");
+  try {
+    nodeCanvas = require("canvas");
+  } catch (error) {
+    // The first line names what is missing; the rest is the require stack
+    const [reason] = (error as Error).message.split("\n");
+    throw new Error(`node-canvas is needed to draw PNG images: ${reason}`);
+  }
+  return nodeCanvas.createCanvas(width, height);
+}
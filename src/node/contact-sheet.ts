@@ -0,0 +1,106 @@
+import * as fs from "fs";
+import * as path from "path";
+import { BatchResult } from "./batch";
+
+// --- Contact Sheet (an HTML index of a batch) ---
+
+export interface ContactSheetOptions {
+  title: string;
+  /** Lines describing the batch, e.g. the parameters swept. */
+  description?: string[];
+  /** Images per row, e.g. one row per seed of a sweep. Default: as fit. */
+  columns?: number;
+}
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const STYLE = `
+  body { margin: 2rem; font-family: system-ui, sans-serif; background: #f4f1ea; color: #1b1b1b; }
+  h1 { font-size: 1.4rem; margin: 0 0 0.5rem; }
+  header p { margin: 0.2rem 0; color: #555; }
+  main { display: grid; gap: 1rem; margin-top: 1.5rem; grid-template-columns: var(--columns, repeat(auto-fill, minmax(220px, 1fr))); }
+  figure { margin: 0; padding: 0.5rem; background: #fff; border: 1px solid #ddd; }
+  figure img { display: block; width: 100%; height: auto; }
+  figure.failed { border-color: #c8312b; }
+  figcaption { font-size: 0.8rem; margin-top: 0.4rem; line-height: 1.4; }
+  figcaption b { font-weight: 600; }
+  .error { color: #c8312b; }
+`;
+
+/** One cell of the sheet: the image, linked to itself, and its parameters. */
+function figure(result: BatchResult, dir: string): string {
+  const { job } = result;
+  if (!result.ok) {
+    return `<figure class="failed"><figcaption><b>#${job.index}</b> seed ${
+      job.params.seed
+    }<br><span class="error">${escapeHtml(
+      result.error
+    )}</span></figcaption></figure>`;
+  }
+
+  const link = (file: string) =>
+    escapeHtml(encodeURI(path.relative(dir, file).split(path.sep).join("/")));
+  const image = result.written.find((file) => /\.(png|svg)$/.test(file));
+  const document = result.written.find((file) => file.endsWith(".json"));
+  const { params } = job;
+  const caption = [
+    `<b>#${job.index}</b> seed ${params.seed}`,
+    `depth ${params.maxDepth} · color ${params.colorChance.toFixed(2)} · line ${
+      params.lineWeight
+    }px`,
+    `${escapeHtml(params.palette?.name ?? "classic")} · ${
+      params.layout ?? "bisection"
+    }`,
+    document ? `<a href="${link(document)}">document</a>` : "",
+  ]
+    .filter(Boolean)
+    .join("<br>");
+
+  return `<figure>${
+    image
+      ? `<a href="${link(image)}"><img src="${link(
+          image
+        )}" loading="lazy" alt="Composition ${params.seed}"></a>`
+      : ""
+  }<figcaption>${caption}</figcaption></figure>`;
+}
+
+/**
+ * Writes an HTML page indexing a batch's images with the parameters each
+ * was made with; images are linked relative to the page, so the page and
+ * the images can move together.
+ */
+export async function writeContactSheet(
+  file: string,
+  results: BatchResult[],
+  { title, description = [], columns }: ContactSheetOptions
+): Promise<void> {
+  const dir = path.dirname(path.resolve(file));
+  const grid = columns
+    ? ` style="--columns: repeat(${columns}, minmax(160px, 1fr))"`
+    : "";
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(title)}</h1>
+${description.map((line) => `<p>${escapeHtml(line)}</p>`).join("\n")}
+</header>
+<main${grid}>
+${results.map((result) => figure(result, dir)).join("\n")}
+</main>
+</body>
+</html>
+`;
+  await fs.promises.writeFile(file, html);
+}
@@ -0,0 +1,173 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  Composition,
+  CompositionDocument,
+  CompositionParams,
+  ImageMetadata,
+  compositionMetadata,
+  createDocument,
+  drawComposition,
+  SonificationName,
+  generateComposition,
+  missingColors,
+  readSvgMetadata,
+  renderSvg,
+  serializeDocument,
+  sonify,
+} from "../core";
+import { createCanvas } from "./canvas";
+import { addPngMetadata, readPngMetadata } from "./png";
+
+export const OUTPUT_FORMATS = ["png", "svg", "both"] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export function isOutputFormat(value: string): value is OutputFormat {
+  return (OUTPUT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Renders a composition to a PNG buffer with node-canvas.
+ * @param dpi Print density stored in the PNG's pHYs chunk.
+ * @param metadata Stored in the PNG's text chunks.
+ */
+export function renderPng(
+  composition: Composition,
+  dpi?: number,
+  metadata?: ImageMetadata
+): Buffer {
+  const canvas = createCanvas(composition.width, composition.height);
+  drawComposition(canvas.getContext("2d"), composition);
+  const png = canvas.toBuffer("image/png", dpi ? { resolution: dpi } : {});
+  return metadata ? addPngMetadata(png, metadata) : png;
+}
+
+/**
+ * The files `generateArtImage` writes for a format: the image file(s),
+ * then the document.
+ * @param basePath Output path without extension.
+ */
+export function outputFiles(basePath: string, format: OutputFormat): string[] {
+  return [
+    ...(format === "svg" ? [] : [`${basePath}.png`]),
+    ...(format === "png" ? [] : [`${basePath}.svg`]),
+    `${basePath}.json`,
+  ];
+}
+
+/**
+ * Saves a composition in the requested format(s).
+ * @param basePath Output path without extension.
+ * @param dpi Print density recorded in the image file(s).
+ * @param metadata Generation parameters embedded in the image file(s).
+ * @returns The paths of the written files.
+ */
+export async function writeComposition(
+  basePath: string,
+  composition: Composition,
+  format: OutputFormat,
+  dpi?: number,
+  metadata?: ImageMetadata
+): Promise<string[]> {
+  const written: string[] = [];
+
+  if (format === "png" || format === "both") {
+    await fs.promises.writeFile(
+      `${basePath}.png`,
+      renderPng(composition, dpi, metadata)
+    );
+    written.push(`${basePath}.png`);
+  }
+  if (format === "svg" || format === "both") {
+    await fs.promises.writeFile(
+      `${basePath}.svg`,
+      renderSvg(composition, { dpi, metadata })
+    );
+    written.push(`${basePath}.svg`);
+  }
+
+  return written;
+}
+
+/**
+ * Reads back the metadata embedded in a PNG or SVG file.
+ * @returns null if the file has none.
+ * @throws Error if the file can't be read or is not a PNG or SVG file.
+ */
+export async function readImageMetadata(
+  file: string
+): Promise<ImageMetadata | null> {
+  const extension = path.extname(file).toLowerCase();
+  if (extension === ".png") {
+    const metadata = readPngMetadata(await fs.promises.readFile(file));
+    return Object.keys(metadata).length > 0 ? metadata : null;
+  }
+  if (extension === ".svg") {
+    return readSvgMetadata(await fs.promises.readFile(file, "utf8"));
+  }
+  throw new Error(`${file} is not a PNG or SVG file.`);
+}
+
+/**
+ * Saves the composition document next to the image file(s).
+ * @param basePath Output path without extension.
+ * @returns The path of the written file.
+ */
+export async function writeDocument(
+  basePath: string,
+  document: CompositionDocument
+): Promise<string> {
+  await fs.promises.writeFile(`${basePath}.json`, serializeDocument(document));
+  return `${basePath}.json`;
+}
+
+export interface ArtImageOptions {
+  /** Default: "png". */
+  format?: OutputFormat;
+  /** Print density recorded in the image file(s). */
+  dpi?: number;
+  /** Mapping from the composition to the notes in its document. */
+  sonification?: SonificationName;
+}
+
+/**
+ * Generates a composition and saves the image file(s) plus its document.
+ * @param basePath Output path without extension.
+ * @param params Everything that determines the composition.
+ * @returns The paths of the written files.
+ */
+export async function generateArtImage(
+  basePath: string,
+  params: CompositionParams,
+  options: ArtImageOptions = {}
+): Promise<string[]> {
+  // 1. Generate the colored block structure
+  const composition = generateComposition(params);
+  if (params.rules?.includes("all-colors")) {
+    const missing = missingColors(composition.blocks, composition.palette);
+    if (missing.length > 0) {
+      console.warn(
+        `⚠️  Seed ${params.seed}: all-colors left out ${missing.join(
+          ", "
+        )}, as no block could take them without breaking the other rules.`
+      );
+    }
+  }
+
+  // 2. Draw it and save the image file(s), with the parameters embedded,
+  // plus the composition document
+  const written = await writeComposition(
+    basePath,
+    composition,
+    options.format ?? "png",
+    options.dpi,
+    compositionMetadata(params)
+  );
+  written.push(
+    await writeDocument(
+      basePath,
+      createDocument(composition, sonify(composition, options.sonification))
+    )
+  );
+  return written;
+}
@@ -0,0 +1,36 @@
+import * as fs from "fs";
+import * as path from "path";
+import { PALETTES, Palette, getPalette, parsePalette } from "../core";
+
+/**
+ * Resolves a `--palette` value: either a preset name or the path of a
+ * palette JSON file.
+ * @throws Error if the preset is unknown or the file is invalid.
+ */
+export async function loadPalette(nameOrPath: string): Promise<Palette> {
+  const preset = getPalette(nameOrPath);
+  if (preset) {
+    return preset;
+  }
+
+  if (!fs.existsSync(nameOrPath)) {
+    throw new Error(
+      `Unknown palette "${nameOrPath}". Use one of ${Object.keys(PALETTES).join(
+        ", "
+      )} or the path of a palette .json file.`
+    );
+  }
+
+  const text = await fs.promises.readFile(nameOrPath, "utf8");
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(
+      `Invalid palette: ${nameOrPath} is not valid JSON (${
+        (error as Error).message
+      }).`
+    );
+  }
+  return parsePalette(data, path.basename(nameOrPath, ".json"));
+}
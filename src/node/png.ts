@@ -0,0 +1,120 @@
+import { ImageMetadata } from "../core";
+
+// --- PNG Text Chunks (metadata in tEXt, or iTXt beyond Latin-1) ---
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** Length, type, data and the CRC of type and data. */
+function chunk(type: string, data: Buffer): Buffer {
+  const body = Buffer.concat([Buffer.from(type, "latin1"), data]);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+const isLatin1 = (text: string) => /^[\x20-\x7e\xa0-\xff\n]*$/.test(text);
+
+function textChunk(keyword: string, text: string): Buffer {
+  const key = Buffer.from(keyword, "latin1");
+  if (isLatin1(text)) {
+    return chunk(
+      "tEXt",
+      Buffer.concat([key, Buffer.from([0]), Buffer.from(text, "latin1")])
+    );
+  }
+  // Uncompressed, with empty language tag and translated keyword
+  return chunk(
+    "iTXt",
+    Buffer.concat([key, Buffer.from([0, 0, 0, 0, 0]), Buffer.from(text)])
+  );
+}
+
+interface Chunk {
+  type: string;
+  /** Offset of the chunk's length field. */
+  offset: number;
+  data: Buffer;
+}
+
+/**
+ * Splits a PNG into its chunks.
+ * @throws Error if `png` is not a PNG file.
+ */
+function readChunks(png: Buffer): Chunk[] {
+  if (png.length < SIGNATURE.length || !png.subarray(0, 8).equals(SIGNATURE)) {
+    throw new Error("Not a PNG file.");
+  }
+  const chunks: Chunk[] = [];
+  let offset = SIGNATURE.length;
+  while (offset + 8 <= png.length) {
+    const length = png.readUInt32BE(offset);
+    const type = png.toString("latin1", offset + 4, offset + 8);
+    chunks.push({
+      type,
+      offset,
+      data: png.subarray(offset + 8, offset + 8 + length),
+    });
+    offset += 12 + length;
+  }
+  return chunks;
+}
+
+/**
+ * Adds one text chunk per metadata entry to a PNG, just before its end.
+ * Keywords are the metadata's names; values outside Latin-1 go in iTXt.
+ */
+export function addPngMetadata(png: Buffer, metadata: ImageMetadata): Buffer {
+  const end = readChunks(png).find((entry) => entry.type === "IEND");
+  if (!end) {
+    throw new Error("Invalid PNG file: no IEND chunk.");
+  }
+  return Buffer.concat([
+    png.subarray(0, end.offset),
+    ...Object.entries(metadata).map(([keyword, text]) =>
+      textChunk(keyword, text)
+    ),
+    png.subarray(end.offset),
+  ]);
+}
+
+/**
+ * Reads every uncompressed text chunk (tEXt and iTXt) of a PNG.
+ * @throws Error if `png` is not a PNG file.
+ */
+export function readPngMetadata(png: Buffer): ImageMetadata {
+  const metadata: ImageMetadata = {};
+  for (const { type, data } of readChunks(png)) {
+    const separator = data.indexOf(0);
+    if (separator < 0) continue;
+    const keyword = data.toString("latin1", 0, separator);
+    if (type === "tEXt") {
+      metadata[keyword] = data.toString("latin1", separator + 1);
+    } else if (type === "iTXt" && data[separator + 1] === 0) {
+      // Skip the compression method, language tag and translated keyword
+      const language = data.indexOf(0, separator + 3);
+      const translated = language < 0 ? -1 : data.indexOf(0, language + 1);
+      if (translated >= 0) {
+        metadata[keyword] = data.toString("utf8", translated + 1);
+      }
+    }
+  }
+  return metadata;
+}
@@ -0,0 +1,89 @@
+// --- Terminal Progress Bar ---
+
+const BAR_WIDTH = 30;
+
+// Off a terminal, the shortest time between two progress lines (ms)
+const LINE_INTERVAL = 10000;
+
+export interface ProgressBar {
+  /** Counts one finished item, printing `message` above the bar. */
+  tick(message?: string): void;
+  /** Removes the bar, leaving the printed messages. */
+  done(): void;
+}
+
+/**
+ * Formats a duration as "1h 02m", "3m 05s" or "12s".
+ */
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  const pad = (value: number) => String(value).padStart(2, "0");
+  if (h > 0) return `${h}h ${pad(m)}m`;
+  if (m > 0) return `${m}m ${pad(s)}s`;
+  return `${s}s`;
+}
+
+/**
+ * Creates a progress bar with an ETA extrapolated from the average time per
+ * finished item. On a terminal the bar is redrawn in place below the
+ * messages; otherwise (e.g. output piped to a file or a CI log) a plain
+ * progress line is printed at most every 10 seconds, and at the end.
+ */
+export function createProgressBar(
+  total: number,
+  stream: NodeJS.WriteStream = process.stdout
+): ProgressBar {
+  const start = Date.now();
+  let finished = 0;
+  let lastLine = start;
+
+  // An empty batch is complete from the start
+  const fraction = () => (total > 0 ? finished / total : 1);
+
+  const status = () => {
+    const elapsed = Date.now() - start;
+    const eta =
+      finished > 0
+        ? formatDuration((elapsed / finished) * (total - finished))
+        : "?";
+    return `${finished}/${total} (${Math.round(fraction() * 100)}%) ETA ${eta}`;
+  };
+
+  const draw = () => {
+    const filled = Math.round(fraction() * BAR_WIDTH);
+    stream.write(
+      `\r[${"#".repeat(filled)}${"-".repeat(BAR_WIDTH - filled)}] ${status()}`
+    );
+  };
+
+  const clear = () => {
+    stream.clearLine(0);
+    stream.cursorTo(0);
+  };
+
+  if (stream.isTTY) draw();
+
+  return {
+    tick(message) {
+      finished++;
+      if (!stream.isTTY) {
+        if (message) stream.write(`${message}\n`);
+        const now = Date.now();
+        if (finished >= total || now - lastLine >= LINE_INTERVAL) {
+          stream.write(`${status()}\n`);
+          lastLine = now;
+        }
+        return;
+      }
+      clear();
+      if (message) stream.write(`${message}\n`);
+      draw();
+    },
+    done() {
+      if (stream.isTTY) clear();
+    },
+  };
+}
@@ -0,0 +1,90 @@
+import * as fs from "fs";
+import * as http from "http";
+import * as path from "path";
+import { RenderApi } from "./api";
+
+// --- HTTP Server (the web app's static files) ---
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".map": "application/json",
+  ".json": "application/json",
+  ".png": "image/png",
+  ".svg": "image/svg+xml",
+};
+
+/** Answers with a plain-text status message. */
+function sendStatus(
+  response: http.ServerResponse,
+  status: number,
+  message: string
+): void {
+  response.writeHead(status, { "Content-Type": "text/plain; charset=utf-8" });
+  response.end(`${message}\n`);
+}
+
+/**
+ * Serves the files below `root`; `/` serves `index.html`. Paths outside
+ * `root` are not found; malformed ones are a bad request.
+ */
+async function serveFile(
+  root: string,
+  request: http.IncomingMessage,
+  response: http.ServerResponse
+): Promise<void> {
+  const { pathname } = new URL(request.url ?? "/", "http://localhost");
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    return sendStatus(response, 400, "Bad request: malformed path");
+  }
+  let file = path.join(root, decoded);
+  if (file !== root && !file.startsWith(root + path.sep)) {
+    return sendStatus(response, 404, "Not found");
+  }
+
+  try {
+    if ((await fs.promises.stat(file)).isDirectory()) {
+      file = path.join(file, "index.html");
+    }
+    const content = await fs.promises.readFile(file);
+    response.writeHead(200, {
+      "Content-Type":
+        CONTENT_TYPES[path.extname(file).toLowerCase()] ??
+        "application/octet-stream",
+      "Content-Length": content.length,
+    });
+    response.end(request.method === "HEAD" ? undefined : content);
+  } catch {
+    sendStatus(response, 404, "Not found");
+  }
+}
+
+/**
+ * Creates an HTTP server for the web app's files in `root`, and the render
+ * API's endpoints if given one (call `listen` to start it).
+ */
+export function createWebServer(root: string, api?: RenderApi): http.Server {
+  const webRoot = path.resolve(root);
+  return http.createServer((request, response) => {
+    if (request.method !== "GET" && request.method !== "HEAD") {
+      response.setHeader("Allow", "GET, HEAD");
+      sendStatus(response, 405, "Method not allowed");
+      return;
+    }
+    const answer = async () => {
+      if (!(await api?.handle(request, response))) {
+        await serveFile(webRoot, request, response);
+      }
+    };
+    answer().catch((error) => {
+      console.error("Failed to serve request:", error);
+      if (!response.headersSent) {
+        sendStatus(response, 500, "Internal server error");
+      }
+    });
+  });
+}
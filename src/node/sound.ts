@@ -0,0 +1,147 @@
+import { spawnSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as wav from "wav";
+import { StereoBuffer } from "../core";
+
+/** Default samples per second of rendered audio. */
+export const SAMPLE_RATE = 44100;
+
+export const AUDIO_FORMATS = ["wav", "ogg"] as const;
+export type AudioFormat = (typeof AUDIO_FORMATS)[number];
+
+export interface PcmOptions {
+  sampleRate: number;
+  /** 1 (mono, the sum of both channels) or 2 (stereo). */
+  channels: number;
+}
+
+/**
+ * Converts rendered audio to interleaved 16-bit samples.
+ */
+export function encodePcm(audio: StereoBuffer, channels: number): Buffer {
+  const { left, right } = audio;
+  const buffer = Buffer.alloc(left.length * channels * 2);
+  // Leave some headroom: max amplitude for 16-bit audio is 32767
+  const clip = (sample: number) =>
+    Math.round(Math.max(-2, Math.min(2, sample)) * 16383);
+
+  for (let i = 0; i < left.length; i++) {
+    if (channels === 1) {
+      buffer.writeInt16LE(clip((left[i] + right[i]) / 2), i * 2);
+    } else {
+      buffer.writeInt16LE(clip(left[i]), i * 4);
+      buffer.writeInt16LE(clip(right[i]), i * 4 + 2);
+    }
+  }
+  return buffer;
+}
+
+/**
+ * Encodes rendered audio as a 16-bit WAV file. The bytes only depend on
+ * the samples, so the same audio always gives the same file.
+ */
+export async function encodeWav(
+  audio: StereoBuffer,
+  options: PcmOptions
+): Promise<Buffer> {
+  const writer = new wav.Writer({
+    channels: options.channels,
+    sampleRate: options.sampleRate,
+    bitDepth: 16,
+  });
+  const chunks: Buffer[] = [];
+  writer.on("data", (chunk: Buffer) => chunks.push(chunk));
+  // The header with the real data length is only known once all is written
+  const [header] = await Promise.all([
+    new Promise<Buffer>((resolve) => writer.on("header", resolve)),
+    new Promise((resolve, reject) => {
+      writer.on("end", resolve);
+      writer.on("error", reject);
+    }),
+    writer.end(encodePcm(audio, options.channels)),
+  ]);
+
+  const file = Buffer.concat(chunks);
+  header.copy(file, 0);
+  return file;
+}
+
+/**
+ * Writes rendered audio to a 16-bit WAV file.
+ */
+export async function writeWav(
+  filePath: string,
+  audio: StereoBuffer,
+  options: PcmOptions
+): Promise<void> {
+  await fs.promises.writeFile(filePath, await encodeWav(audio, options));
+}
+
+/**
+ * Whether an `ffmpeg` executable is on the PATH.
+ */
+export function hasFfmpeg(): boolean {
+  return !spawnSync("ffmpeg", ["-version"], { stdio: "ignore" }).error;
+}
+
+/**
+ * Runs the local ffmpeg quietly.
+ * @throws Error if ffmpeg is missing or fails.
+ */
+export function runFfmpeg(args: string[]): void {
+  const result = spawnSync(
+    "ffmpeg",
+    ["-hide_banner", "-loglevel", "error", "-y", ...args],
+    { encoding: "utf8" }
+  );
+  if (result.error) {
+    throw new Error("ffmpeg was not found. Install it and add it to the PATH.");
+  }
+  if (result.status !== 0) {
+    throw new Error(`ffmpeg failed: ${result.stderr.trim()}`);
+  }
+}
+
+/**
+ * Writes rendered audio as WAV, or as Ogg Vorbis through ffmpeg.
+ * @throws Error if Ogg is requested and ffmpeg is missing or fails.
+ */
+export async function writeAudio(
+  filePath: string,
+  audio: StereoBuffer,
+  format: AudioFormat,
+  options: PcmOptions
+): Promise<void> {
+  if (format === "wav") {
+    await writeWav(filePath, audio, options);
+    return;
+  }
+
+  const tempDir = await fs.promises.mkdtemp(
+    path.join(os.tmpdir(), "mondrian-")
+  );
+  const wavPath = path.join(tempDir, "audio.wav");
+  try {
+    await writeWav(wavPath, audio, options);
+    // Bit-exact mode leaves out the encoder tag and random stream serials
+    runFfmpeg([
+      "-i",
+      wavPath,
+      "-c:a",
+      "libvorbis",
+      "-q:a",
+      "6",
+      "-map_metadata",
+      "-1",
+      "-fflags",
+      "+bitexact",
+      "-flags:a",
+      "+bitexact",
+      filePath,
+    ]);
+  } finally {
+    await fs.promises.rm(tempDir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,136 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  SessionEntry,
+  TransitionName,
+  drawComposition,
+  drawTransition,
+} from "../core";
+import { createCanvas } from "./canvas";
+import { runFfmpeg } from "./sound";
+
+// --- Video Frames (a session as numbered PNG frames) ---
+
+export const VIDEO_CONTAINERS = ["mp4", "webm"] as const;
+export type VideoContainer = (typeof VIDEO_CONTAINERS)[number];
+
+export function isVideoContainer(value: string): value is VideoContainer {
+  return (VIDEO_CONTAINERS as readonly string[]).includes(value);
+}
+
+export interface FrameOptions {
+  /** Frames per second. */
+  fps: number;
+  /** Seconds each composition is shown, transition included. */
+  duration: number;
+  transition: TransitionName;
+  /**
+   * Seconds from one composition to the next, at the start of the next
+   * one's slot; matches the sound's crossfade.
+   */
+  transitionDuration: number;
+}
+
+/** File name pattern of the frames, as ffmpeg reads them. */
+export const FRAME_PATTERN = "frame_%05d.png";
+
+const frameName = (index: number) =>
+  FRAME_PATTERN.replace("%05d", String(index).padStart(5, "0"));
+
+// Any file named by `FRAME_PATTERN`
+const FRAME_FILE = /^frame_\d{5,}\.png$/;
+
+/**
+ * Writes the session as numbered PNG frames into `dir`: each composition
+ * for `duration` seconds, with a transition from the one before. Frames
+ * without a transition are encoded once per composition. Frames left in
+ * `dir` by an earlier run are removed first, so ffmpeg never picks them up.
+ * @param onFrame Called after each frame is written.
+ * @returns The number of frames.
+ */
+export async function writeFrames(
+  dir: string,
+  session: SessionEntry[],
+  options: FrameOptions,
+  onFrame: (frame: number, total: number) => void = () => {}
+): Promise<number> {
+  const { fps, duration, transition, transitionDuration } = options;
+  const total = Math.round(session.length * duration * fps);
+  const { width, height } = session[0].composition;
+  const frame = createCanvas(width, height);
+  const context = frame.getContext("2d");
+
+  for (const file of await fs.promises.readdir(dir)) {
+    if (FRAME_FILE.test(file)) {
+      await fs.promises.unlink(path.join(dir, file));
+    }
+  }
+
+  let currentIndex = -1;
+  let still: Buffer | null = null;
+
+  for (let i = 0; i < total; i++) {
+    const time = i / fps;
+    const index = Math.min(session.length - 1, Math.floor(time / duration));
+    if (index !== currentIndex) {
+      currentIndex = index;
+      still = null;
+    }
+
+    const elapsed = time - index * duration;
+    let png: Buffer;
+    if (index > 0 && transition !== "cut" && elapsed < transitionDuration) {
+      drawTransition(
+        context,
+        session[index - 1].composition,
+        session[index].composition,
+        transition,
+        elapsed / transitionDuration
+      );
+      png = frame.toBuffer("image/png");
+    } else {
+      if (!still) {
+        drawComposition(context, session[index].composition);
+        still = frame.toBuffer("image/png");
+      }
+      png = still;
+    }
+
+    await fs.promises.writeFile(path.join(dir, frameName(i + 1)), png);
+    onFrame(i + 1, total);
+  }
+
+  return total;
+}
+
+/**
+ * Muxes the frames and the sound track into a video with the local ffmpeg:
+ * H.264 and AAC in MP4, or VP9 and Opus in WebM.
+ * @throws Error if ffmpeg is missing or fails.
+ */
+export function muxVideo(
+  framesDir: string,
+  audioPath: string,
+  outputPath: string,
+  fps: number,
+  container: VideoContainer
+): void {
+  const codecs =
+    container === "mp4"
+      ? ["-c:v", "libx264", "-pix_fmt", "yuv420p", "-c:a", "aac"]
+      : ["-c:v", "libvpx-vp9", "-pix_fmt", "yuv420p", "-c:a", "libopus"];
+  runFfmpeg([
+    "-framerate",
+    String(fps),
+    "-i",
+    path.join(framesDir, FRAME_PATTERN),
+    "-i",
+    audioPath,
+    // The encoders need even dimensions
+    "-vf",
+    "pad=ceil(iw/2)*2:ceil(ih/2)*2",
+    ...codecs,
+    "-shortest",
+    outputPath,
+  ]);
+}
@@ -0,0 +1,229 @@
+import { getPalette, parseSeed } from "../core";
+import { ToneGenerator } from "./generator";
+
+// --- <mondrian-generator> (embeddable custom element) ---
+
+export const ELEMENT_NAME = "mondrian-generator";
+
+// Events passed on from the generator, bubbling out of the element
+const GENERATOR_EVENTS = ["composition", "tone", "start", "stop"] as const;
+
+const ELEMENT_STYLE = `
+:host { display: block; position: relative; width: 100%; height: 300px; }
+:host([hidden]) { display: none; }
+canvas { display: block; width: 100%; height: 100%; }
+`;
+
+let sharedContext: AudioContext | null = null;
+
+/**
+ * The AudioContext shared by every element with the `shared-audio`
+ * attribute, created on first use; pass it to other generators to play in
+ * the same context.
+ */
+export function sharedAudioContext(): AudioContext {
+  if (!sharedContext) {
+    sharedContext = new (window.AudioContext ||
+      (window as any).webkitAudioContext)();
+  }
+  return sharedContext;
+}
+
+/**
+ * Plays compositions and their sound in its own box on the page.
+ *
+ * Attributes: `volume` (0–100), `interval` (seconds between compositions),
+ * `palette` (a preset name), `seed` (a number or any text), `autoplay`, and
+ * `shared-audio` to play in `sharedAudioContext()` rather than a context of
+ * its own. Dispatches the generator's "composition", "tone", "start" and
+ * "stop" events, bubbling, and "error" (`detail`: the error) when autoplay
+ * fails to start; `generator` has the rest of the API.
+ */
+export class MondrianGeneratorElement extends HTMLElement {
+  static get observedAttributes(): string[] {
+    return ["volume", "interval", "palette", "seed", "autoplay"];
+  }
+
+  /**
+   * Context to play in, used when the element is connected. Default: the
+   * shared context with `shared-audio`, otherwise one of its own.
+   */
+  public audioContext: AudioContext | null = null;
+
+  private canvas: HTMLCanvasElement;
+  private toneGenerator: ToneGenerator | null = null;
+
+  constructor() {
+    super();
+    const shadow = this.attachShadow({ mode: "open" });
+    const style = document.createElement("style");
+    style.textContent = ELEMENT_STYLE;
+    this.canvas = document.createElement("canvas");
+    shadow.append(style, this.canvas);
+  }
+
+  /** The generator behind the element; null while disconnected. */
+  get generator(): ToneGenerator | null {
+    return this.toneGenerator;
+  }
+
+  connectedCallback(): void {
+    if (this.toneGenerator) return;
+    const generator = new ToneGenerator(this.canvas, {
+      audioContext:
+        this.audioContext ??
+        (this.hasAttribute("shared-audio") ? sharedAudioContext() : undefined),
+      fit: "canvas",
+    });
+    for (const type of GENERATOR_EVENTS) {
+      generator.addEventListener(type, (event) =>
+        this.dispatchEvent(
+          new CustomEvent(type, {
+            detail: (event as CustomEvent).detail,
+            bubbles: true,
+            composed: true,
+          })
+        )
+      );
+    }
+    generator.addEventListener("start", () => this.removeUnlockListeners());
+    this.toneGenerator = generator;
+
+    for (const name of MondrianGeneratorElement.observedAttributes) {
+      this.applyAttribute(name, this.getAttribute(name));
+    }
+  }
+
+  disconnectedCallback(): void {
+    this.removeUnlockListeners();
+    this.toneGenerator?.dispose();
+    this.toneGenerator = null;
+  }
+
+  attributeChangedCallback(
+    name: string,
+    _: string | null,
+    value: string | null
+  ) {
+    if (this.toneGenerator) {
+      this.applyAttribute(name, value);
+    }
+  }
+
+  /**
+   * Starts playing. Browsers only let sound start from a user gesture, so
+   * call it from one (e.g. a click) unless the page already had one.
+   */
+  public start(): Promise<void> {
+    return this.toneGenerator?.start() ?? Promise.resolve();
+  }
+
+  public stop(): void {
+    this.toneGenerator?.stop();
+  }
+
+  /** Holds the composition on screen. */
+  public pause(): void {
+    this.toneGenerator?.pause();
+  }
+
+  public resume(): void {
+    this.toneGenerator?.resume();
+  }
+
+  private applyAttribute(name: string, value: string | null): void {
+    const generator = this.toneGenerator!;
+    if (value === null) {
+      if (name === "autoplay") this.removeUnlockListeners();
+      return; // Removing an attribute keeps the current setting
+    }
+
+    switch (name) {
+      case "volume": {
+        const volume = Number(value);
+        if (value.trim() === "" || !(volume >= 0 && volume <= 100)) {
+          console.warn(
+            `${ELEMENT_NAME}: volume must be 0–100, got "${value}".`
+          );
+          return;
+        }
+        generator.setVolume(volume);
+        break;
+      }
+      case "interval": {
+        const seconds = Number(value);
+        if (!(seconds > 0)) {
+          console.warn(
+            `${ELEMENT_NAME}: interval must be a positive number of seconds, got "${value}".`
+          );
+          return;
+        }
+        generator.setInterval(seconds);
+        break;
+      }
+      case "palette": {
+        const palette = getPalette(value);
+        if (!palette) {
+          console.warn(`${ELEMENT_NAME}: unknown palette "${value}".`);
+          return;
+        }
+        generator.setPalette(palette);
+        break;
+      }
+      case "seed":
+        generator.setSeed(parseSeed(value));
+        break;
+      case "autoplay":
+        this.autoplay();
+        break;
+    }
+  }
+
+  // Starts right away if the page may play sound, otherwise on the first
+  // user gesture anywhere on the page
+  private autoplay(): void {
+    this.autostart();
+    if (this.toneGenerator!.isStarted()) return;
+    document.addEventListener("pointerdown", this.unlock, true);
+    document.addEventListener("keydown", this.unlock, true);
+  }
+
+  private unlock = (): void => {
+    this.removeUnlockListeners();
+    this.autostart();
+  };
+
+  // Nobody awaits an automatic start, so a failure (e.g. an AudioContext
+  // the browser will not resume) leaves the element stopped and is
+  // reported as an "error" event
+  private autostart(): void {
+    this.start().catch((error) => {
+      this.toneGenerator?.stop();
+      this.dispatchEvent(
+        new CustomEvent("error", {
+          detail: error,
+          bubbles: true,
+          composed: true,
+        })
+      );
+    });
+  }
+
+  private removeUnlockListeners(): void {
+    document.removeEventListener("pointerdown", this.unlock, true);
+    document.removeEventListener("keydown", this.unlock, true);
+  }
+}
+
+/** Registers `<mondrian-generator>`, unless it already is. */
+export function defineMondrianGenerator(): void {
+  if (!customElements.get(ELEMENT_NAME)) {
+    customElements.define(ELEMENT_NAME, MondrianGeneratorElement);
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    [ELEMENT_NAME]: MondrianGeneratorElement;
+  }
+}
@@ -0,0 +1,140 @@
+import {
+  CompositionDocument,
+  drawComposition,
+  parseDocument,
+  scaleComposition,
+  serializeDocument,
+} from "../core";
+
+// --- Gallery (favorite compositions, kept in the browser) ---
+
+export interface Favorite {
+  /** When it was saved (ms since the epoch); unique. */
+  id: number;
+  /** The composition with its notes. */
+  document: CompositionDocument;
+  /** PNG data URL. */
+  thumbnail: string;
+}
+
+export interface FavoriteStore {
+  /** Every favorite, newest first. */
+  list(): Promise<Favorite[]>;
+  add(favorite: Favorite): Promise<void>;
+  remove(id: number): Promise<void>;
+}
+
+const DATABASE_NAME = "mondrian";
+const STORE_NAME = "favorites";
+const STORAGE_KEY = "mondrian-favorites";
+
+// Width of the gallery's thumbnails, in pixels
+const THUMBNAIL_WIDTH = 240;
+
+/** Renders a small PNG of a composition, as a data URL. */
+export function renderThumbnail(document: CompositionDocument): string {
+  const canvas = window.document.createElement("canvas");
+  canvas.width = THUMBNAIL_WIDTH;
+  canvas.height = Math.max(
+    1,
+    Math.round((THUMBNAIL_WIDTH * document.height) / document.width)
+  );
+  drawComposition(
+    canvas.getContext("2d")!,
+    scaleComposition(document, canvas.width, canvas.height)
+  );
+  return canvas.toDataURL("image/png");
+}
+
+/** Resolves with the result of an IndexedDB request. */
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+type StoredFavorite = Omit<Favorite, "document"> & { document: string };
+
+/**
+ * Parses stored favorites newest first, migrating documents saved in older
+ * versions; those that no longer parse are left out with a warning.
+ */
+function parseFavorites(stored: StoredFavorite[]): Favorite[] {
+  const favorites: Favorite[] = [];
+  for (const favorite of stored) {
+    try {
+      favorites.push({
+        ...favorite,
+        document: parseDocument(favorite.document),
+      });
+    } catch (error) {
+      console.warn(`Skipping unreadable favorite ${favorite.id}:`, error);
+    }
+  }
+  return favorites.reverse();
+}
+
+async function openIndexedDb(): Promise<FavoriteStore> {
+  const request = indexedDB.open(DATABASE_NAME, 1);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+  };
+  const database = await settle(request);
+  const store = (mode: IDBTransactionMode) =>
+    database.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+
+  return {
+    async list() {
+      const favorites: Favorite[] = await settle(store("readonly").getAll());
+      return parseFavorites(
+        favorites.map((favorite) => ({
+          ...favorite,
+          document: JSON.stringify(favorite.document),
+        }))
+      );
+    },
+    async add(favorite) {
+      await settle(store("readwrite").put(favorite));
+    },
+    async remove(id) {
+      await settle(store("readwrite").delete(id));
+    },
+  };
+}
+
+/** Keeps favorites in localStorage, with documents as JSON text. */
+function openLocalStorage(): FavoriteStore {
+  const read = (): StoredFavorite[] =>
+    JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+  const write = (favorites: StoredFavorite[]) =>
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(favorites));
+
+  return {
+    async list() {
+      return parseFavorites(read());
+    },
+    async add(favorite) {
+      write([
+        ...read(),
+        { ...favorite, document: serializeDocument(favorite.document) },
+      ]);
+    },
+    async remove(id) {
+      write(read().filter((favorite) => favorite.id !== id));
+    },
+  };
+}
+
+/**
+ * Opens the favorites kept in IndexedDB, or in localStorage where IndexedDB
+ * is unavailable (e.g. some private browsing modes).
+ */
+export async function openFavorites(): Promise<FavoriteStore> {
+  try {
+    return await openIndexedDb();
+  } catch (error) {
+    console.warn("IndexedDB unavailable, using localStorage:", error);
+    return openLocalStorage();
+  }
+}
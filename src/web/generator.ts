@@ -0,0 +1,879 @@
+import {
+  AudioFeatures,
+  Composition,
+  CompositionDocument,
+  CompositionParams,
+  DEFAULT_EFFECTS,
+  DEFAULT_HARMONY,
+  DEFAULT_PALETTE,
+  DEFAULT_TEMPO,
+  DEFAULT_VOICE,
+  EffectsSettings,
+  Harmony,
+  LayoutName,
+  MidiControlName,
+  Note,
+  Palette,
+  LineStyle,
+  RuleName,
+  SonificationName,
+  Tempo,
+  TransitionName,
+  VoiceSettings,
+  applyFeatures,
+  compositionPeriod,
+  createDocument,
+  drawComposition,
+  drawTransition,
+  generateComposition,
+  midiToFrequency,
+  nextSeed,
+  quantizeNotes,
+  randomParams,
+  randomSeed,
+  relativeScale,
+  renderSvg,
+  scaleComposition,
+  serializeDocument,
+  sonify,
+  tempoInterval,
+  withPitches,
+} from "../core";
+import { AudioInput, openAudioFile, openMicrophone } from "./input";
+import { MidiConnection, connectMidi } from "./midi";
+import { Scheduler, createScheduler } from "./scheduler";
+import { EffectsBus, createEffectsBus, playNote } from "./synth";
+
+/**
+ * Offers `content` to the user as a file download.
+ */
+export function downloadFile(
+  filename: string,
+  content: string,
+  type: string
+): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Shortest animated transition, in seconds
+const MIN_TRANSITION = 0.4;
+
+// Compositions kept to step back through
+const HISTORY_SIZE = 100;
+
+/** Parameters a MIDI controller can set; line weight in pixels at 4K. */
+type ParamOverrides = Partial<
+  Pick<CompositionParams, "maxDepth" | "colorChance" | "lineWeight">
+>;
+
+/** A composition whose notes are scheduled at `time` on the audio clock. */
+interface ScheduledComposition {
+  time: number;
+  seed: number;
+  composition: Composition;
+  notes: Note[];
+  /** Seconds. */
+  transitionDuration: number;
+  /** Position in the history, when replayed from it. */
+  historyIndex?: number;
+}
+
+export interface GeneratorOptions {
+  /**
+   * Context to play in, e.g. one shared by several generators on a page.
+   * Default: a context of the generator's own, closed by `dispose`.
+   */
+  audioContext?: AudioContext;
+  /**
+   * Sizes the canvas to the window (the web app) or to its own box on the
+   * page (embedded). Default: "window".
+   */
+  fit?: "window" | "canvas";
+}
+
+/** Detail of the "composition" event: a composition coming on screen. */
+export interface CompositionEventDetail {
+  seed: number;
+  composition: Composition;
+  notes: Note[];
+}
+
+/** Detail of the "tone" event: notes scheduled to play. */
+export interface ToneEventDetail {
+  notes: Note[];
+  /** When they start, in seconds on the audio clock. */
+  time: number;
+}
+
+// --- Tone Generator with Mondrian Sync ---
+
+/**
+ * Plays compositions and their sound on a canvas. Dispatches "composition"
+ * and "tone" events (`CustomEvent`s with the details above), and "start"
+ * and "stop".
+ */
+export class ToneGenerator extends EventTarget {
+  private audioContext: AudioContext;
+  private ownsAudioContext: boolean;
+  private fit: "window" | "canvas";
+  private resizeObserver: ResizeObserver | null = null;
+  private isRunning: boolean = false;
+  private paused: boolean = false; // Running, but no new compositions
+  private animationId: number | null = null;
+  private nextChangeTime: number = 0; // When input may change it next (ms)
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private volume: number = 0.1; // Default 40%
+  private interval: number = 1000; // Default 5 seconds
+  private tempo: Tempo = DEFAULT_TEMPO;
+  private scheduler: Scheduler;
+  private pending: ScheduledComposition[] = []; // Scheduled, not shown yet
+  private history: ScheduledComposition[] = []; // Shown, oldest first
+  private historyIndex: number = -1; // Position of the one on screen
+  private seed: number = randomSeed(); // Seed of the next composition
+  private currentSeed: number | null = null; // Seed on screen
+  private currentComposition: Composition | null = null;
+  private palette: Palette = DEFAULT_PALETTE;
+  private rules: RuleName[] = [];
+  private layout: LayoutName = "bisection";
+  private sonification: SonificationName = "timbre";
+  private harmony: Harmony = DEFAULT_HARMONY;
+  private currentNotes: Note[] = []; // Notes of the composition on screen
+  private scheduledNotes: Note[] = []; // Notes scheduled last
+  private voice: VoiceSettings = DEFAULT_VOICE;
+  private effects: EffectsSettings = DEFAULT_EFFECTS;
+  private effectsBus: EffectsBus;
+  private lineStyle: Partial<LineStyle> = {};
+  private transition: TransitionName = "grow";
+  private previousComposition: Composition | null = null; // Transitioning from
+  private transitionStart: number = 0; // Audio clock, in seconds
+  private transitionDuration: number = 0;
+  private input: AudioInput | null = null; // Drives the audio-reactive mode
+  private features: AudioFeatures | null = null; // Latest from the input
+  private pitches: number[] = []; // Held on a MIDI keyboard
+  private paramOverrides: ParamOverrides = {};
+  private midi: MidiConnection | null = null;
+  private onSeedChange: ((seed: number) => void) | null = null;
+  private onIntervalChange: ((seconds: number) => void) | null = null;
+  private onPauseChange: ((paused: boolean) => void) | null = null;
+
+  constructor(canvas: HTMLCanvasElement, options: GeneratorOptions = {}) {
+    super();
+    this.ownsAudioContext = !options.audioContext;
+    this.audioContext =
+      options.audioContext ??
+      new (window.AudioContext || (window as any).webkitAudioContext)();
+    this.fit = options.fit ?? "window";
+    this.effectsBus = createEffectsBus(
+      this.audioContext,
+      this.audioContext.destination,
+      this.effects
+    );
+    this.scheduler = createScheduler(
+      this.audioContext,
+      this.period(),
+      (time) => {
+        // Keeps the state in step while the tab is hidden and not drawing
+        this.showDue(this.audibleTime());
+        this.scheduleComposition(time);
+      }
+    );
+    this.canvas = canvas;
+    this.ctx = canvas.getContext("2d")!;
+
+    // Set canvas size to match window dimensions
+    this.resizeCanvas();
+
+    if (this.fit === "canvas") {
+      // Follow the canvas's own box as the page lays it out
+      this.resizeObserver = new ResizeObserver(() => this.resizeCanvas());
+      this.resizeObserver.observe(canvas);
+    } else {
+      // Handle window resize and orientation changes
+      window.addEventListener("resize", this.resizeCanvas);
+      window.addEventListener("orientationchange", this.reorient);
+    }
+  }
+
+  // Slight delay to ensure dimensions are updated after orientation change
+  private reorient = (): void => {
+    setTimeout(this.resizeCanvas, 100);
+  };
+
+  private resizeCanvas = (): void => {
+    // Use actual window dimensions for true full screen (or the canvas's
+    // box when embedded), in device pixels for sharp lines on high-density
+    // displays. Line weights and block sizes scale with the canvas, so the
+    // composition looks the same either way.
+    const pixelRatio = window.devicePixelRatio || 1;
+    const width =
+      this.fit === "canvas" ? this.canvas.clientWidth : window.innerWidth;
+    const height =
+      this.fit === "canvas" ? this.canvas.clientHeight : window.innerHeight;
+    if (width === 0 || height === 0) return; // Not laid out (yet)
+    const pixelWidth = Math.round(width * pixelRatio);
+    const pixelHeight = Math.round(height * pixelRatio);
+    if (
+      pixelWidth === this.canvas.width &&
+      pixelHeight === this.canvas.height
+    ) {
+      return;
+    }
+    this.canvas.width = pixelWidth;
+    this.canvas.height = pixelHeight;
+
+    // Regenerate the current image with new dimensions
+    if (this.isRunning && this.currentSeed !== null) {
+      this.generateMondrianImage(this.currentSeed);
+    }
+  };
+
+  private composeImage(seed: number): Composition {
+    // Same draws as the CLI at 4K, scaled to the window, so a seed looks
+    // alike on every screen
+    const { width, height } = this.canvas;
+    const params = randomParams(seed, width, height);
+    const { lineWeight, ...overrides } = this.paramOverrides;
+    return generateComposition({
+      // In the audio-reactive mode the input shapes colors and lines
+      ...(this.features ? applyFeatures(params, this.features) : params),
+      // MIDI controller knobs win over both
+      ...overrides,
+      ...(lineWeight !== undefined && {
+        lineWeight: Math.max(
+          1,
+          Math.round(lineWeight * relativeScale(width, height))
+        ),
+      }),
+      palette: this.palette,
+      rules: this.rules,
+      lineStyle: this.lineStyle,
+      layout: this.layout,
+    });
+  }
+
+  /**
+   * Redraws the composition at once, e.g. after a setting changed; cuts any
+   * transition short.
+   */
+  private generateMondrianImage(seed: number): Composition {
+    const composition = this.composeImage(seed);
+
+    // Draw composition (also clears the canvas)
+    drawComposition(this.ctx, composition);
+    this.currentComposition = composition;
+    this.previousComposition = null;
+    return composition;
+  }
+
+  /** Time between compositions, in seconds. */
+  private period(): number {
+    return compositionPeriod(this.interval / 1000, this.tempo);
+  }
+
+  /** Time on the audio clock of the sound heard right now. */
+  private audibleTime(): number {
+    return (
+      this.audioContext.currentTime - (this.audioContext.outputLatency || 0)
+    );
+  }
+
+  /**
+   * Composes the next seed and schedules its notes at `time` (audio clock
+   * seconds); the composition appears when its sound is heard.
+   */
+  private scheduleComposition(time: number): void {
+    const seed = this.seed;
+    this.seed = nextSeed(seed);
+    const composition = this.composeImage(seed);
+
+    // The sound of the composition, voice-led from the previous one, at the
+    // pitches held on a MIDI keyboard if any, on the tempo's grid
+    const notes = quantizeNotes(
+      withPitches(
+        sonify(composition, this.sonification, {
+          harmony: this.harmony,
+          previous: this.scheduledNotes.map((note) => note.frequency),
+        }),
+        this.pitches
+      ),
+      this.tempo
+    );
+    this.playEntry({
+      time,
+      seed,
+      composition,
+      notes,
+      transitionDuration: this.transitionLength(notes),
+    });
+  }
+
+  /**
+   * The transition settles as the last note reaches its peak, with the
+   * color fields entering left to right along with their notes.
+   * @returns Seconds.
+   */
+  private transitionLength(notes: Note[]): number {
+    const entry =
+      Math.max(...notes.map((note) => note.start)) + this.voice.envelope.attack;
+    return Math.min(this.period(), Math.max(MIN_TRANSITION, entry));
+  }
+
+  /**
+   * Schedules the notes of `entry` at its time and queues it to be shown
+   * when they are heard.
+   */
+  private playEntry(entry: ScheduledComposition): void {
+    const { time, notes } = entry;
+    this.scheduledNotes = notes;
+    console.log(
+      `Playing ${notes.length} note(s): ${notes
+        .map((note) => `~${Math.round(note.frequency)}Hz`)
+        .join(", ")}`
+    );
+    // Audio input is the sound of the audio-reactive mode
+    for (const note of this.input ? [] : notes) {
+      playNote(
+        this.audioContext,
+        this.effectsBus.input,
+        note,
+        this.voice,
+        time + note.start,
+        this.volume
+      );
+    }
+    this.midi?.sendNotes(
+      notes,
+      performance.now() + (time - this.audioContext.currentTime) * 1000
+    );
+
+    this.dispatchEvent(
+      new CustomEvent<ToneEventDetail>("tone", { detail: { notes, time } })
+    );
+
+    this.pending.push(entry);
+    this.pending.sort((a, b) => a.time - b.time);
+  }
+
+  /**
+   * Brings in the latest scheduled composition whose time has come, animated
+   * in from the one on screen.
+   */
+  private showDue(time: number): void {
+    let due: ScheduledComposition | undefined;
+    while (this.pending.length > 0 && this.pending[0].time <= time) {
+      due = this.pending.shift();
+    }
+    if (!due) return;
+
+    // Composed before a resize (or replayed): fit it to the canvas
+    const { width, height } = this.canvas;
+    const composition =
+      due.composition.width === width && due.composition.height === height
+        ? due.composition
+        : scaleComposition(due.composition, width, height);
+
+    if (due.historyIndex !== undefined) {
+      this.historyIndex = due.historyIndex;
+    } else {
+      this.history.push(due);
+      if (this.history.length > HISTORY_SIZE) {
+        this.history.shift();
+      }
+      this.historyIndex = this.history.length - 1;
+    }
+
+    this.currentSeed = due.seed;
+    this.onSeedChange?.(due.seed);
+    this.dispatchEvent(
+      new CustomEvent<CompositionEventDetail>("composition", {
+        detail: { seed: due.seed, composition, notes: due.notes },
+      })
+    );
+    this.previousComposition = this.currentComposition;
+    this.currentComposition = composition;
+    this.currentNotes = due.notes;
+    this.transitionStart = due.time;
+    this.transitionDuration = due.transitionDuration;
+    if (!this.previousComposition) {
+      drawComposition(this.ctx, composition);
+    }
+  }
+
+  /**
+   * Brings in a new composition right away; the timed mode counts the next
+   * interval from now.
+   */
+  private changeNow(): void {
+    const now = this.audioContext.currentTime;
+    this.scheduleComposition(now);
+    if (!this.input && !this.paused) {
+      this.scheduler.start(now + this.period());
+    }
+  }
+
+  /**
+   * Draws the current frame of the transition, if one is running.
+   */
+  private drawTransitionFrame(time: number): void {
+    if (!this.previousComposition || !this.currentComposition) return;
+    const progress = (time - this.transitionStart) / this.transitionDuration;
+    drawTransition(
+      this.ctx,
+      this.previousComposition,
+      this.currentComposition,
+      this.transition,
+      progress
+    );
+    if (progress >= 1) {
+      this.previousComposition = null;
+    }
+  }
+
+  /**
+   * Audio-reactive mode: onsets in the input bring in a new composition, no
+   * sooner than the interval, which follows the input's tempo.
+   */
+  private listen(time: number): void {
+    const features = this.input!.analyse(time);
+    if (features.tempo !== null) {
+      const seconds = tempoInterval(features.tempo);
+      if (Math.abs(seconds * 1000 - this.interval) > 50) {
+        this.interval = seconds * 1000;
+        this.scheduler.setPeriod(this.period());
+        this.onIntervalChange?.(seconds);
+      }
+    }
+    if (features.onset && time >= this.nextChangeTime) {
+      this.features = features;
+      this.nextChangeTime = time + this.interval;
+      this.changeNow();
+    }
+  }
+
+  /**
+   * Animation loop: shows the compositions as their sound is heard and
+   * draws the transitions to them. Timing comes from the scheduler, so it
+   * carries on while the tab is hidden and this loop is paused.
+   */
+  private frame = (): void => {
+    if (!this.isRunning) return;
+    if (this.input && !this.paused) {
+      this.listen(performance.now());
+    }
+    const time = this.audibleTime();
+    this.showDue(time);
+    this.drawTransitionFrame(time);
+    this.animationId = requestAnimationFrame(this.frame);
+  };
+
+  public setVolume(volumePercent: number): void {
+    // Convert percentage (0-100) to gain value (0-1)
+    this.volume = volumePercent / 100;
+    console.log(`Volume set to ${volumePercent}%`);
+  }
+
+  /**
+   * Switches palette; redraws the composition on screen with it.
+   */
+  public setPalette(palette: Palette): void {
+    this.palette = palette;
+    console.log(`Palette set to ${palette.name}`);
+
+    if (this.isRunning && this.currentSeed !== null) {
+      this.generateMondrianImage(this.currentSeed);
+    }
+  }
+
+  /**
+   * Switches layout strategy; redraws the composition on screen with it.
+   */
+  public setLayout(layout: LayoutName): void {
+    this.layout = layout;
+    console.log(`Layout set to ${layout}`);
+
+    if (this.isRunning && this.currentSeed !== null) {
+      this.generateMondrianImage(this.currentSeed);
+    }
+  }
+
+  /**
+   * Switches the animation between compositions, from the next one on.
+   */
+  public setTransition(transition: TransitionName): void {
+    this.transition = transition;
+    console.log(`Transition set to ${transition}`);
+  }
+
+  /**
+   * Switches the mapping from compositions to notes, from the next
+   * composition on.
+   */
+  public setSonification(sonification: SonificationName): void {
+    this.sonification = sonification;
+    console.log(`Sonification set to ${sonification}`);
+  }
+
+  /**
+   * Updates the key, scale and/or chord size, from the next composition on.
+   */
+  public setHarmony(harmony: Partial<Harmony>): void {
+    this.harmony = { ...this.harmony, ...harmony };
+    console.log(
+      `Harmony set to ${this.harmony.key} ${this.harmony.scale}, ${this.harmony.voices} voices`
+    );
+  }
+
+  /**
+   * Switches the synth voice, from the next composition on.
+   */
+  public setVoice(voice: VoiceSettings): void {
+    this.voice = voice;
+    console.log(`Voice set to ${voice.name}`);
+  }
+
+  /**
+   * Updates the reverb and delay of the effects bus; applies right away.
+   */
+  public setEffects(effects: Partial<EffectsSettings>): void {
+    this.effects = { ...this.effects, ...effects };
+    this.effectsBus.setEffects(this.effects);
+  }
+
+  /**
+   * Sets the composition rules; redraws the composition on screen with them.
+   */
+  public setRules(rules: RuleName[]): void {
+    this.rules = rules;
+    console.log(`Rules set to ${rules.join(", ") || "none"}`);
+
+    if (this.isRunning && this.currentSeed !== null) {
+      this.generateMondrianImage(this.currentSeed);
+    }
+  }
+
+  /**
+   * Updates the line weight distribution, partial and double lines; redraws
+   * the composition on screen with them.
+   */
+  public setLineStyle(style: Partial<LineStyle>): void {
+    this.lineStyle = { ...this.lineStyle, ...style };
+
+    if (this.isRunning && this.currentSeed !== null) {
+      this.generateMondrianImage(this.currentSeed);
+    }
+  }
+
+  /**
+   * Makes `seed` the next composition; shows it right away when running.
+   */
+  public setSeed(seed: number): void {
+    this.seed = seed;
+    console.log(`Seed set to ${seed}`);
+
+    if (this.isRunning) {
+      this.changeNow();
+    }
+  }
+
+  public setSeedListener(listener: (seed: number) => void): void {
+    this.onSeedChange = listener;
+  }
+
+  public setIntervalListener(listener: (seconds: number) => void): void {
+    this.onIntervalChange = listener;
+  }
+
+  public setPauseListener(listener: (paused: boolean) => void): void {
+    this.onPauseChange = listener;
+  }
+
+  /**
+   * Switches to the audio-reactive mode driven by `input`, or back to the
+   * timed mode with null; closes the previous input.
+   */
+  public setInput(input: AudioInput | null): void {
+    this.input?.close();
+    this.input = input;
+    this.features = null;
+    console.log(`Input set to ${input ? input.name : "none"}`);
+
+    // Onsets take over from the scheduler, and hand back to it
+    if (input) {
+      this.scheduler.stop();
+    } else if (this.isRunning && !this.paused) {
+      this.scheduler.start(this.audioContext.currentTime + this.period());
+    }
+  }
+
+  /**
+   * Sets the pitches held on a MIDI keyboard; with `trigger`, brings in a
+   * new composition with them right away and restarts the countdown.
+   */
+  public setPitches(frequencies: number[], trigger: boolean = false): void {
+    this.pitches = frequencies;
+    if (trigger && this.isRunning && frequencies.length > 0) {
+      this.changeNow();
+    }
+  }
+
+  /**
+   * Sets composition parameters from a MIDI controller; redraws the
+   * composition on screen with them.
+   */
+  public setParamOverrides(overrides: ParamOverrides): void {
+    this.paramOverrides = { ...this.paramOverrides, ...overrides };
+
+    if (this.isRunning && this.currentSeed !== null) {
+      this.generateMondrianImage(this.currentSeed);
+    }
+  }
+
+  /**
+   * Connects MIDI: played notes bring in compositions at their pitches,
+   * knobs go to `onControl`, and notes can be sent to an output.
+   * @throws DOMException if MIDI is unsupported or access is denied.
+   */
+  public async connectMidi(
+    onControl: (name: MidiControlName, value: number) => void,
+    onDevicesChange: () => void
+  ): Promise<MidiConnection> {
+    const held = new Set<number>();
+    const pitches = () => [...held].map(midiToFrequency);
+    this.midi = await connectMidi(
+      {
+        noteOn: (note) => {
+          held.add(note);
+          this.setPitches(pitches(), true);
+        },
+        noteOff: (note) => {
+          held.delete(note);
+          this.setPitches(pitches());
+        },
+        control: onControl,
+      },
+      onDevicesChange
+    );
+    console.log("MIDI connected");
+    return this.midi;
+  }
+
+  /**
+   * Opens the microphone, or plays and listens to an audio file, as input.
+   * @throws DOMException if the input cannot be opened.
+   */
+  public async openInput(file?: File): Promise<void> {
+    this.setInput(
+      file
+        ? await openAudioFile(this.audioContext, file, this.effectsBus.input)
+        : await openMicrophone(this.audioContext)
+    );
+  }
+
+  /**
+   * Downloads the composition on screen as an SVG file.
+   */
+  public exportSvg(): void {
+    if (!this.currentComposition) {
+      console.warn("Nothing to export yet.");
+      return;
+    }
+    downloadFile(
+      `mondrian_${this.currentComposition.seed}.svg`,
+      renderSvg(this.currentComposition),
+      "image/svg+xml"
+    );
+  }
+
+  /**
+   * Downloads the composition on screen, with its notes, as a JSON document
+   * that the `render` CLI command can re-render at any resolution.
+   */
+  public exportDocument(): void {
+    const document = this.currentDocument();
+    if (!document) {
+      console.warn("Nothing to export yet.");
+      return;
+    }
+    downloadFile(
+      `mondrian_${document.seed}.json`,
+      serializeDocument(document),
+      "application/json"
+    );
+  }
+
+  /**
+   * The composition on screen with its notes; null before the first.
+   */
+  public currentDocument(): CompositionDocument | null {
+    return this.currentComposition
+      ? createDocument(this.currentComposition, this.currentNotes)
+      : null;
+  }
+
+  /**
+   * Stops bringing in new compositions; the one on screen stays.
+   */
+  public pause(): void {
+    if (!this.isRunning || this.paused) return;
+    this.paused = true;
+    this.scheduler.stop();
+    // Compositions scheduled but not shown yet would replace the one paused on
+    this.pending = [];
+    this.onPauseChange?.(true);
+    console.log("Paused.");
+  }
+
+  /**
+   * Carries on with new compositions, the next one an interval from now.
+   */
+  public resume(): void {
+    if (!this.isRunning || !this.paused) return;
+    this.paused = false;
+    this.nextChangeTime = performance.now() + this.interval;
+    if (!this.input) {
+      this.scheduler.start(this.audioContext.currentTime + this.period());
+    }
+    this.onPauseChange?.(false);
+    console.log("Resumed.");
+  }
+
+  public isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Pauses and brings back the previous composition in the history, with
+   * its notes.
+   */
+  public stepBack(): void {
+    this.step(-1);
+  }
+
+  /**
+   * Pauses and brings back the next composition in the history, with its
+   * notes; past the newest, brings in a new one.
+   */
+  public stepForward(): void {
+    this.step(1);
+  }
+
+  private step(offset: number): void {
+    if (!this.isRunning) return;
+    this.pause();
+    const index = this.historyIndex + offset;
+    if (index < 0) return;
+    if (index >= this.history.length) {
+      this.changeNow();
+      return;
+    }
+    this.historyIndex = index;
+    this.playEntry({
+      ...this.history[index],
+      time: this.audioContext.currentTime,
+      historyIndex: index,
+    });
+  }
+
+  /**
+   * Pauses and replays a saved composition with its notes, fitted to the
+   * canvas.
+   */
+  public replayDocument(document: CompositionDocument): void {
+    if (!this.isRunning) {
+      console.warn("Start the generator first.");
+      return;
+    }
+    this.pause();
+    const { version, notes, ...composition } = document;
+    this.playEntry({
+      time: this.audioContext.currentTime,
+      seed: document.seed,
+      composition,
+      notes,
+      transitionDuration: this.transitionLength(notes),
+    });
+  }
+
+  /**
+   * Sets the time between compositions; the next one comes the new time
+   * after the last, so the rhythm carries on.
+   */
+  public setInterval(seconds: number): void {
+    this.interval = seconds * 1000; // Convert to milliseconds
+    this.scheduler.setPeriod(this.period());
+    console.log(`Speed set to ${seconds} seconds`);
+  }
+
+  /**
+   * Updates the tempo and/or rhythmic grid: with a subdivision, compositions
+   * change on the beat and notes snap to the grid.
+   */
+  public setTempo(tempo: Partial<Tempo>): void {
+    this.tempo = { ...this.tempo, ...tempo };
+    this.scheduler.setPeriod(this.period());
+    console.log(
+      `Tempo set to ${this.tempo.bpm} BPM, ${this.tempo.subdivision} timing`
+    );
+  }
+
+  public async start(): Promise<void> {
+    // Resume the AudioContext if it's suspended (which it will be on page load)
+    if (this.audioContext.state === "suspended") {
+      await this.audioContext.resume();
+    }
+
+    if (this.isRunning) return;
+    this.isRunning = true;
+    console.log(
+      `Audio and visual engine started. Generating every ${
+        this.interval / 1000
+      } seconds.`
+    );
+
+    this.changeNow(); // Play the first tone and show first image immediately
+    this.animationId = requestAnimationFrame(this.frame);
+    this.dispatchEvent(new Event("start"));
+  }
+
+  public isStarted(): boolean {
+    return this.isRunning;
+  }
+
+  public stop(): void {
+    if (!this.isRunning || this.animationId === null) return;
+    this.isRunning = false;
+    this.paused = false;
+    this.scheduler.stop();
+    this.pending = [];
+    cancelAnimationFrame(this.animationId);
+    this.animationId = null;
+    console.log("Audio engine stopped.");
+    this.dispatchEvent(new Event("stop"));
+  }
+
+  /**
+   * Stops for good and lets go of everything the generator holds: its
+   * listeners, timers, input, MIDI and sound, and its own AudioContext (a
+   * shared one stays open).
+   */
+  public dispose(): void {
+    this.stop();
+    this.setInput(null);
+    this.midi?.close();
+    this.midi = null;
+    this.scheduler.close();
+    this.effectsBus.disconnect();
+    this.resizeObserver?.disconnect();
+    window.removeEventListener("resize", this.resizeCanvas);
+    window.removeEventListener("orientationchange", this.reorient);
+    if (this.ownsAudioContext) {
+      this.audioContext.close();
+    }
+  }
+}
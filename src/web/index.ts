@@ -0,0 +1,20 @@
+// --- ES module entry (for embedding in other pages) ---
+
+import { defineMondrianGenerator } from "./element";
+
+export { ToneGenerator } from "./generator";
+export type {
+  CompositionEventDetail,
+  GeneratorOptions,
+  ToneEventDetail,
+} from "./generator";
+export {
+  ELEMENT_NAME,
+  MondrianGeneratorElement,
+  defineMondrianGenerator,
+  sharedAudioContext,
+} from "./element";
+export { PALETTES, parseSeed } from "../core";
+
+// Importing the module is enough to use <mondrian-generator>
+defineMondrianGenerator();
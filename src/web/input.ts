@@ -0,0 +1,79 @@
+import { AudioFeatures, createFeatureTracker } from "../core";
+
+// --- Audio Input (microphone or audio file, for the audio-reactive mode) ---
+
+export interface AudioInput {
+  /** What is being listened to, for display. */
+  name: string;
+  /** Analyses the input at `time` (milliseconds, as from `performance.now`). */
+  analyse(time: number): AudioFeatures;
+  /** Stops listening (and playing, for files). */
+  close(): void;
+}
+
+/**
+ * Listens to `source` through an analyser; the analyser's output is not
+ * connected, so nothing is heard through it.
+ */
+function analyse(
+  context: AudioContext,
+  source: AudioNode,
+  name: string,
+  close: () => void
+): AudioInput {
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 2048;
+  // Onsets need the raw frames, not a running average
+  analyser.smoothingTimeConstant = 0;
+  source.connect(analyser);
+
+  const spectrum = new Float32Array(analyser.frequencyBinCount);
+  const waveform = new Float32Array(analyser.fftSize);
+  const tracker = createFeatureTracker();
+
+  return {
+    name,
+    analyse(time) {
+      analyser.getFloatFrequencyData(spectrum);
+      analyser.getFloatTimeDomainData(waveform);
+      return tracker.update(spectrum, waveform, time / 1000);
+    },
+    close() {
+      source.disconnect();
+      close();
+    },
+  };
+}
+
+/**
+ * Listens to the microphone (asks for permission first).
+ * @throws DOMException if access is denied or there is no microphone.
+ */
+export async function openMicrophone(
+  context: AudioContext
+): Promise<AudioInput> {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  return analyse(
+    context,
+    context.createMediaStreamSource(stream),
+    "microphone",
+    () => stream.getTracks().forEach((track) => track.stop())
+  );
+}
+
+/**
+ * Plays an audio file in a loop into `destination` and listens to it.
+ * @throws DOMException if the file cannot be decoded.
+ */
+export async function openAudioFile(
+  context: AudioContext,
+  file: File,
+  destination: AudioNode
+): Promise<AudioInput> {
+  const source = context.createBufferSource();
+  source.buffer = await context.decodeAudioData(await file.arrayBuffer());
+  source.loop = true;
+  source.connect(destination);
+  source.start();
+  return analyse(context, source, file.name, () => source.stop());
+}
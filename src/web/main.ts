@@ -1,324 +1,601 @@
-// --- Mondrian Generation Logic (Browser-compatible) ---
-
-interface Block {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-}
-
-const PRIMARY_COLORS = ["#FF0000", "#0000FF", "#FFFF00"]; // Red, Blue, Yellow
-const BACKGROUND_COLOR = "#FFFFFF"; // White
-const MIN_BLOCK_SIZE = 150; // Adjusted for smaller web canvas
-
-function generateBlocks(
-  block: Block,
-  depth: number,
-  maxDepth: number
-): Block[] {
-  if (depth >= maxDepth) {
-    return [block];
-  }
+import {
+  DEFAULT_HARMONY,
+  DEFAULT_PALETTE,
+  DEFAULT_TEMPO,
+  DEFAULT_VOICE,
+  EffectsSettings,
+  KEY_NAMES,
+  KeyName,
+  LAYOUTS,
+  LayoutName,
+  LineStyle,
+  MidiControlName,
+  PALETTES,
+  RULES,
+  RuleName,
+  SCALES,
+  SUBDIVISIONS,
+  ScaleName,
+  SONIFICATIONS,
+  SonificationName,
+  SubdivisionName,
+  TRANSITIONS,
+  TransitionName,
+  VOICES,
+  VoiceName,
+  parsePalette,
+  parseSeed,
+  renderSvg,
+  serializeDocument,
+} from "../core";
+import { Favorite, openFavorites, renderThumbnail } from "./gallery";
+import { ToneGenerator, downloadFile } from "./generator";
+import { MidiConnection } from "./midi";
 
-  if (
-    (block.width < MIN_BLOCK_SIZE && block.height < MIN_BLOCK_SIZE) ||
-    (Math.random() < 0.2 && depth > 0)
-  ) {
-    return [block];
+// --- Main execution ---
+window.addEventListener("load", () => {
+  const canvas = document.getElementById("mondrianCanvas") as HTMLCanvasElement;
+  if (!canvas) {
+    console.error("Canvas element not found!");
+    return;
   }
 
-  const splitHorizontally = block.height > block.width;
-  const splitVertically = block.width > block.height;
-  let blocks: Block[] = [];
-
-  if (splitHorizontally && block.height > MIN_BLOCK_SIZE) {
-    const splitPoint = Math.floor(
-      block.y + block.height * (Math.random() * 0.4 + 0.3)
-    );
-    const blockA: Block = {
-      x: block.x,
-      y: block.y,
-      width: block.width,
-      height: splitPoint - block.y,
-    };
-    const blockB: Block = {
-      x: block.x,
-      y: splitPoint,
-      width: block.width,
-      height: block.y + block.height - splitPoint,
-    };
+  const toneGenerator = new ToneGenerator(canvas);
 
-    blocks = [
-      ...generateBlocks(blockA, depth + 1, maxDepth),
-      ...generateBlocks(blockB, depth + 1, maxDepth),
-    ];
-  } else if (splitVertically && block.width > MIN_BLOCK_SIZE) {
-    const splitPoint = Math.floor(
-      block.x + block.width * (Math.random() * 0.4 + 0.3)
-    );
-    const blockA: Block = {
-      x: block.x,
-      y: block.y,
-      width: splitPoint - block.x,
-      height: block.height,
-    };
-    const blockB: Block = {
-      x: splitPoint,
-      y: block.y,
-      width: block.x + block.width - splitPoint,
-      height: block.height,
-    };
+  // Setup start button
+  const startButton = document.getElementById("startButton");
+  if (startButton) {
+    startButton.addEventListener("click", () => {
+      toneGenerator.start();
+      startButton.style.display = "none";
+    });
+  }
 
-    blocks = [
-      ...generateBlocks(blockA, depth + 1, maxDepth),
-      ...generateBlocks(blockB, depth + 1, maxDepth),
-    ];
-  } else {
-    blocks = [block];
+  // Setup volume control
+  const volumeSlider = document.getElementById(
+    "volumeSlider"
+  ) as HTMLInputElement;
+  const volumeValue = document.getElementById("volumeValue");
+  if (volumeSlider && volumeValue) {
+    volumeSlider.addEventListener("input", () => {
+      const volume = parseInt(volumeSlider.value, 10);
+      volumeValue.textContent = `${volume}%`;
+      toneGenerator.setVolume(volume);
+    });
   }
 
-  return blocks;
-}
-
-function drawComposition(
-  ctx: CanvasRenderingContext2D,
-  blocks: Block[],
-  colorChance: number,
-  lineWeight: number
-): void {
-  // Fill blocks
-  for (const block of blocks) {
-    if (Math.random() < colorChance) {
-      const colorIndex = Math.floor(Math.random() * PRIMARY_COLORS.length);
-      ctx.fillStyle = PRIMARY_COLORS[colorIndex];
-    } else {
-      ctx.fillStyle = BACKGROUND_COLOR;
-    }
-    ctx.fillRect(block.x, block.y, block.width, block.height);
+  // Setup speed control
+  const speedSlider = document.getElementById(
+    "speedSlider"
+  ) as HTMLInputElement;
+  const speedValue = document.getElementById("speedValue");
+  if (speedSlider && speedValue) {
+    // The audio-reactive mode sets the interval from the input's tempo
+    toneGenerator.setIntervalListener((seconds) => {
+      speedValue.textContent = `${seconds.toFixed(1)}s`;
+    });
+    speedSlider.addEventListener("input", () => {
+      const speed = parseFloat(speedSlider.value);
+      speedValue.textContent = `${speed.toFixed(1)}s`;
+      toneGenerator.setInterval(speed);
+    });
   }
 
-  // Draw grid
-  ctx.strokeStyle = "#000000";
-  ctx.lineWidth = lineWeight;
-  ctx.lineCap = "butt";
-  ctx.lineJoin = "miter";
+  // Setup tempo controls: BPM and the rhythmic grid of notes and changes
+  const tempoSlider = document.getElementById(
+    "tempoSlider"
+  ) as HTMLInputElement;
+  const tempoValue = document.getElementById("tempoValue");
+  const subdivisionSelect = document.getElementById(
+    "subdivisionSelect"
+  ) as HTMLSelectElement;
+  if (tempoSlider && tempoValue && subdivisionSelect) {
+    tempoSlider.addEventListener("input", () => {
+      const bpm = parseInt(tempoSlider.value, 10);
+      tempoValue.textContent = `${bpm} BPM`;
+      toneGenerator.setTempo({ bpm });
+    });
 
-  for (const block of blocks) {
-    ctx.strokeRect(block.x, block.y, block.width, block.height);
-  }
-}
-
-const randInt = (min: number, max: number) =>
-  Math.floor(Math.random() * (max - min + 1)) + min;
-const randFloat = (min: number, max: number) =>
-  Math.random() * (max - min) + min;
-
-// --- Tone Generator with Mondrian Sync ---
-
-class ToneGenerator {
-  private audioContext: AudioContext;
-  private isRunning: boolean = false;
-  private intervalId: number | null = null;
-  private canvas: HTMLCanvasElement;
-  private ctx: CanvasRenderingContext2D;
-  private volume: number = 0.1; // Default 40%
-  private interval: number = 1000; // Default 5 seconds
-
-  constructor(canvas: HTMLCanvasElement) {
-    this.audioContext = new (window.AudioContext ||
-      (window as any).webkitAudioContext)();
-    this.canvas = canvas;
-    this.ctx = canvas.getContext("2d")!;
-
-    // Set canvas size to match window dimensions
-    this.resizeCanvas();
-
-    // Handle window resize and orientation changes
-    window.addEventListener("resize", () => this.resizeCanvas());
-    window.addEventListener("orientationchange", () => {
-      // Slight delay to ensure dimensions are updated after orientation change
-      setTimeout(() => this.resizeCanvas(), 100);
+    for (const subdivision of Object.values(SUBDIVISIONS)) {
+      const option = new Option(subdivision.name, subdivision.name);
+      option.title = subdivision.description;
+      subdivisionSelect.add(option);
+    }
+    subdivisionSelect.value = DEFAULT_TEMPO.subdivision;
+    subdivisionSelect.addEventListener("change", () => {
+      toneGenerator.setTempo({
+        subdivision: subdivisionSelect.value as SubdivisionName,
+      });
     });
   }
 
-  private resizeCanvas(): void {
-    // Use actual window dimensions for true full screen
-    this.canvas.width = window.innerWidth;
-    this.canvas.height = window.innerHeight;
+  // Setup seed control: shows the seed on screen, Enter/blur applies a new one
+  const seedInput = document.getElementById("seedInput") as HTMLInputElement;
+  if (seedInput) {
+    toneGenerator.setSeedListener((seed) => {
+      seedInput.value = seed.toString();
+    });
+    seedInput.addEventListener("change", () => {
+      if (seedInput.value.trim() !== "") {
+        toneGenerator.setSeed(parseSeed(seedInput.value));
+      }
+    });
+  }
 
-    // Regenerate the current image with new dimensions
-    if (this.isRunning) {
-      this.generateMondrianImage();
+  // Setup line style controls (percentages mapped to 0.0-1.0)
+  const lineStyleControls: [string, keyof LineStyle][] = [
+    ["lineVariance", "variance"],
+    ["doubleLines", "doubleLineChance"],
+    ["partialLines", "partialLineChance"],
+  ];
+  for (const [id, key] of lineStyleControls) {
+    const slider = document.getElementById(`${id}Slider`) as HTMLInputElement;
+    const value = document.getElementById(`${id}Value`);
+    if (slider && value) {
+      slider.addEventListener("input", () => {
+        const percent = parseInt(slider.value, 10);
+        value.textContent = `${percent}%`;
+        toneGenerator.setLineStyle({ [key]: percent / 100 });
+      });
     }
   }
 
-  private generateMondrianImage(): void {
-    const maxDepth = randInt(4, 6);
-    const colorChance = randFloat(0.2, 0.4);
-    const lineWeight = randInt(12, 30);
-
-    // Clear canvas
-    this.ctx.fillStyle = BACKGROUND_COLOR;
-    this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
-
-    // Generate blocks
-    const initialBlock: Block = {
-      x: 0,
-      y: 0,
-      width: this.canvas.width,
-      height: this.canvas.height,
-    };
-    const finalBlocks = generateBlocks(initialBlock, 0, maxDepth);
+  // Setup palette picker: presets, or a user-defined palette .json file
+  const paletteSelect = document.getElementById(
+    "paletteSelect"
+  ) as HTMLSelectElement;
+  const paletteFile = document.getElementById(
+    "paletteFile"
+  ) as HTMLInputElement;
+  if (paletteSelect && paletteFile) {
+    for (const name of Object.keys(PALETTES)) {
+      paletteSelect.add(
+        new Option(name, name),
+        paletteSelect.options.length - 1
+      );
+    }
+    paletteSelect.value = DEFAULT_PALETTE.name;
 
-    // Draw composition
-    drawComposition(this.ctx, finalBlocks, colorChance, lineWeight);
+    paletteSelect.addEventListener("change", () => {
+      if (paletteSelect.value === "custom") {
+        paletteFile.click();
+      } else {
+        toneGenerator.setPalette(PALETTES[paletteSelect.value]);
+      }
+    });
+
+    paletteFile.addEventListener("change", async () => {
+      const file = paletteFile.files?.[0];
+      if (!file) return;
+      try {
+        const palette = parsePalette(
+          JSON.parse(await file.text()),
+          file.name.replace(/\.json$/, "")
+        );
+        toneGenerator.setPalette(palette);
+        paletteSelect.options[paletteSelect.options.length - 1].text =
+          palette.name;
+      } catch (error) {
+        console.error("Failed to load palette:", error);
+        window.alert(`Could not load palette: ${(error as Error).message}`);
+      }
+      paletteFile.value = "";
+    });
   }
 
-  private playTone(frequency: number, duration: number): void {
-    const oscillator = this.audioContext.createOscillator();
-    const gainNode = this.audioContext.createGain();
+  // Setup layout picker
+  const layoutSelect = document.getElementById(
+    "layoutSelect"
+  ) as HTMLSelectElement;
+  if (layoutSelect) {
+    for (const layout of Object.values(LAYOUTS)) {
+      const option = new Option(layout.name, layout.name);
+      option.title = layout.description;
+      layoutSelect.add(option);
+    }
+    layoutSelect.value = "bisection";
+
+    layoutSelect.addEventListener("change", () => {
+      toneGenerator.setLayout(layoutSelect.value as LayoutName);
+    });
+  }
 
-    oscillator.type = "sine";
-    oscillator.frequency.setValueAtTime(
-      frequency,
-      this.audioContext.currentTime
-    );
+  // Setup audio input: microphone, or an audio file picked or dropped
+  const inputSelect = document.getElementById(
+    "inputSelect"
+  ) as HTMLSelectElement;
+  const inputFile = document.getElementById("inputFile") as HTMLInputElement;
+  if (inputSelect && inputFile) {
+    const openInput = async (file?: File) => {
+      try {
+        await toneGenerator.openInput(file);
+      } catch (error) {
+        console.error("Failed to open input:", error);
+        window.alert(`Could not open input: ${(error as Error).message}`);
+        toneGenerator.setInput(null);
+        inputSelect.value = "none";
+      }
+    };
 
-    // Use the volume property
-    gainNode.gain.setValueAtTime(this.volume, this.audioContext.currentTime);
+    inputSelect.addEventListener("change", () => {
+      if (inputSelect.value === "file") {
+        inputFile.click();
+      } else if (inputSelect.value === "microphone") {
+        openInput();
+      } else {
+        toneGenerator.setInput(null);
+      }
+    });
 
-    oscillator.connect(gainNode);
-    gainNode.connect(this.audioContext.destination);
+    inputFile.addEventListener("change", () => {
+      const file = inputFile.files?.[0];
+      if (file) openInput(file);
+      inputFile.value = "";
+    });
 
-    oscillator.start();
-    oscillator.stop(this.audioContext.currentTime + duration);
+    document.addEventListener("dragover", (event) => event.preventDefault());
+    document.addEventListener("drop", (event) => {
+      event.preventDefault();
+      const file = event.dataTransfer?.files[0];
+      if (file && file.type.startsWith("audio/")) {
+        inputSelect.value = "file";
+        openInput(file);
+      }
+    });
   }
 
-  private playCombinationOfTones(duration: number): void {
-    const frequencies = [this.getRandomFrequency(), this.getRandomFrequency()];
-    console.log(
-      `Playing combination of tones at ~${Math.round(
-        frequencies[0]
-      )}Hz and ~${Math.round(frequencies[1])}Hz`
-    );
-    frequencies.forEach((freq) => this.playTone(freq, duration));
-  }
+  // Setup MIDI: controller knobs move the sliders or set parameters, and
+  // notes can be sent to an external synth
+  const midiButton = document.getElementById("midiButton");
+  const midiOutputSelect = document.getElementById(
+    "midiOutputSelect"
+  ) as HTMLSelectElement;
+  if (midiButton && midiOutputSelect) {
+    const setSlider = (slider: HTMLInputElement | null, value: number) => {
+      if (!slider) return;
+      slider.value = String(value);
+      slider.dispatchEvent(new Event("input"));
+    };
+    const onControl = (name: MidiControlName, value: number) => {
+      switch (name) {
+        case "volume":
+          setSlider(volumeSlider, Math.round(value * 100));
+          break;
+        case "speed":
+          setSlider(speedSlider, 1 + Math.round(value * 18) / 2); // 1-10s
+          break;
+        case "depth":
+          toneGenerator.setParamOverrides({
+            maxDepth: 2 + Math.round(value * 6),
+          });
+          break;
+        case "colorChance":
+          toneGenerator.setParamOverrides({ colorChance: value });
+          break;
+        case "lineWeight":
+          toneGenerator.setParamOverrides({
+            lineWeight: 5 + Math.round(value * 95),
+          });
+          break;
+      }
+    };
+
+    let midi: MidiConnection | null = null;
+    const listOutputs = () => {
+      if (!midi) return;
+      const selected = midiOutputSelect.value;
+      midiOutputSelect.length = 1; // Keep "No output"
+      for (const output of midi.outputs()) {
+        midiOutputSelect.add(new Option(output.name ?? output.id, output.id));
+      }
+      // Fall back to no output when the selected one was unplugged
+      midiOutputSelect.value = selected;
+      if (midiOutputSelect.selectedIndex < 0) {
+        midiOutputSelect.value = "";
+        midi.setOutput(null);
+      }
+    };
 
-  private getRandomFrequency(): number {
-    // Frequency range from A3 (220 Hz) to A5 (880 Hz)
-    return Math.random() * (880 - 220) + 220;
+    midiButton.addEventListener("click", async () => {
+      try {
+        midi = await toneGenerator.connectMidi(onControl, listOutputs);
+      } catch (error) {
+        console.error("Failed to connect MIDI:", error);
+        window.alert(`Could not connect MIDI: ${(error as Error).message}`);
+        return;
+      }
+      listOutputs();
+      midiOutputSelect.hidden = false;
+      midiButton.hidden = true;
+    });
+    midiOutputSelect.addEventListener("change", () =>
+      midi?.setOutput(midiOutputSelect.value || null)
+    );
   }
 
-  private generateSoundAndImage(): void {
-    // Generate new Mondrian image
-    this.generateMondrianImage();
-
-    // Play sound
-    const shouldPlayCombination = Math.random() > 0.5;
-    if (shouldPlayCombination) {
-      this.playCombinationOfTones(5);
-    } else {
-      const freq = this.getRandomFrequency();
-      console.log(`Playing single tone at ~${Math.round(freq)}Hz`);
-      this.playTone(freq, 5);
+  // Setup transition picker
+  const transitionSelect = document.getElementById(
+    "transitionSelect"
+  ) as HTMLSelectElement;
+  if (transitionSelect) {
+    for (const transition of Object.values(TRANSITIONS)) {
+      const option = new Option(transition.name, transition.name);
+      option.title = transition.description;
+      transitionSelect.add(option);
     }
-  }
+    transitionSelect.value = "grow";
 
-  public setVolume(volumePercent: number): void {
-    // Convert percentage (0-100) to gain value (0-1)
-    this.volume = volumePercent / 100;
-    console.log(`Volume set to ${volumePercent}%`);
+    transitionSelect.addEventListener("change", () => {
+      toneGenerator.setTransition(transitionSelect.value as TransitionName);
+    });
   }
 
-  public setInterval(seconds: number): void {
-    this.interval = seconds * 1000; // Convert to milliseconds
-    console.log(`Speed set to ${seconds} seconds`);
+  // Setup sonification picker
+  const sonificationSelect = document.getElementById(
+    "sonificationSelect"
+  ) as HTMLSelectElement;
+  if (sonificationSelect) {
+    for (const strategy of Object.values(SONIFICATIONS)) {
+      const option = new Option(strategy.name, strategy.name);
+      option.title = strategy.description;
+      sonificationSelect.add(option);
+    }
+    sonificationSelect.value = "timbre";
 
-    // If already running, restart the interval with new timing
-    if (this.isRunning && this.intervalId !== null) {
-      clearInterval(this.intervalId);
-      this.intervalId = window.setInterval(
-        () => this.generateSoundAndImage(),
-        this.interval
+    sonificationSelect.addEventListener("change", () => {
+      toneGenerator.setSonification(
+        sonificationSelect.value as SonificationName
       );
-    }
+    });
   }
 
-  public async start(): Promise<void> {
-    // Resume the AudioContext if it's suspended (which it will be on page load)
-    if (this.audioContext.state === "suspended") {
-      await this.audioContext.resume();
+  // Setup voice picker
+  const voiceSelect = document.getElementById(
+    "voiceSelect"
+  ) as HTMLSelectElement;
+  if (voiceSelect) {
+    for (const name of Object.keys(VOICES)) {
+      voiceSelect.add(new Option(name, name));
     }
+    voiceSelect.value = DEFAULT_VOICE.name;
+    voiceSelect.addEventListener("change", () => {
+      toneGenerator.setVoice(VOICES[voiceSelect.value as VoiceName]);
+    });
+  }
 
-    if (this.isRunning) return;
-    this.isRunning = true;
-    console.log(
-      `Audio and visual engine started. Generating every ${
-        this.interval / 1000
-      } seconds.`
-    );
+  // Setup effects controls (percentages mapped to 0.0-1.0)
+  const effectsControls: [string, keyof EffectsSettings][] = [
+    ["reverb", "reverb"],
+    ["delay", "delay"],
+  ];
+  for (const [id, key] of effectsControls) {
+    const slider = document.getElementById(`${id}Slider`) as HTMLInputElement;
+    const value = document.getElementById(`${id}Value`);
+    if (slider && value) {
+      slider.addEventListener("input", () => {
+        const percent = parseInt(slider.value, 10);
+        value.textContent = `${percent}%`;
+        toneGenerator.setEffects({ [key]: percent / 100 });
+      });
+    }
+  }
 
-    this.generateSoundAndImage(); // Play the first tone and show first image immediately
-    this.intervalId = window.setInterval(
-      () => this.generateSoundAndImage(),
-      this.interval
-    );
+  // Setup harmony controls: key, scale and voices per chord
+  const keySelect = document.getElementById("keySelect") as HTMLSelectElement;
+  if (keySelect) {
+    for (const key of KEY_NAMES) {
+      keySelect.add(new Option(key, key));
+    }
+    keySelect.value = DEFAULT_HARMONY.key;
+    keySelect.addEventListener("change", () => {
+      toneGenerator.setHarmony({ key: keySelect.value as KeyName });
+    });
   }
 
-  public stop(): void {
-    if (!this.isRunning || this.intervalId === null) return;
-    this.isRunning = false;
-    clearInterval(this.intervalId);
-    this.intervalId = null;
-    console.log("Audio engine stopped.");
+  const scaleSelect = document.getElementById(
+    "scaleSelect"
+  ) as HTMLSelectElement;
+  if (scaleSelect) {
+    for (const scale of Object.values(SCALES)) {
+      const option = new Option(scale.name, scale.name);
+      option.title = scale.description;
+      scaleSelect.add(option);
+    }
+    scaleSelect.value = DEFAULT_HARMONY.scale;
+    scaleSelect.addEventListener("change", () => {
+      toneGenerator.setHarmony({ scale: scaleSelect.value as ScaleName });
+    });
   }
-}
 
-// --- Main execution ---
-window.addEventListener("load", () => {
-  const canvas = document.getElementById("mondrianCanvas") as HTMLCanvasElement;
-  if (!canvas) {
-    console.error("Canvas element not found!");
-    return;
+  const voicesSlider = document.getElementById(
+    "voicesSlider"
+  ) as HTMLInputElement;
+  const voicesValue = document.getElementById("voicesValue");
+  if (voicesSlider && voicesValue) {
+    voicesSlider.addEventListener("input", () => {
+      const voices = parseInt(voicesSlider.value, 10);
+      voicesValue.textContent = `${voices}`;
+      toneGenerator.setHarmony({ voices });
+    });
   }
 
-  const toneGenerator = new ToneGenerator(canvas);
+  // Setup composition rule toggles
+  const rulesList = document.getElementById("rulesList");
+  if (rulesList) {
+    const checkboxes = Object.values(RULES).map((rule) => {
+      const label = document.createElement("label");
+      label.className = "checkbox";
+      label.title = rule.description;
+      const checkbox = document.createElement("input");
+      checkbox.type = "checkbox";
+      checkbox.value = rule.name;
+      label.append(checkbox, ` ${rule.name}`);
+      rulesList.append(label);
+      return checkbox;
+    });
 
-  // Setup start button
-  const startButton = document.getElementById("startButton");
-  if (startButton) {
-    startButton.addEventListener("click", () => {
-      toneGenerator.start();
-      startButton.style.display = "none";
+    rulesList.addEventListener("change", () => {
+      toneGenerator.setRules(
+        checkboxes
+          .filter((checkbox) => checkbox.checked)
+          .map((checkbox) => checkbox.value as RuleName)
+      );
     });
   }
 
-  // Setup volume control
-  const volumeSlider = document.getElementById(
-    "volumeSlider"
-  ) as HTMLInputElement;
-  const volumeValue = document.getElementById("volumeValue");
-  if (volumeSlider && volumeValue) {
-    volumeSlider.addEventListener("input", () => {
-      const volume = parseInt(volumeSlider.value, 10);
-      volumeValue.textContent = `${volume}%`;
-      toneGenerator.setVolume(volume);
+  // Setup SVG export
+  const exportSvgButton = document.getElementById("exportSvgButton");
+  if (exportSvgButton) {
+    exportSvgButton.addEventListener("click", () => toneGenerator.exportSvg());
+  }
+
+  // Setup JSON document export
+  const exportJsonButton = document.getElementById("exportJsonButton");
+  if (exportJsonButton) {
+    exportJsonButton.addEventListener("click", () =>
+      toneGenerator.exportDocument()
+    );
+  }
+
+  // Setup playback: pause/resume and stepping through the history, also
+  // from the keyboard
+  const pauseButton = document.getElementById("pauseButton");
+  const backButton = document.getElementById("backButton");
+  const forwardButton = document.getElementById("forwardButton");
+  const togglePause = () =>
+    toneGenerator.isPaused() ? toneGenerator.resume() : toneGenerator.pause();
+  if (pauseButton && backButton && forwardButton) {
+    toneGenerator.setPauseListener((paused) => {
+      pauseButton.textContent = paused ? "Resume" : "Pause";
     });
+    pauseButton.addEventListener("click", togglePause);
+    backButton.addEventListener("click", () => toneGenerator.stepBack());
+    forwardButton.addEventListener("click", () => toneGenerator.stepForward());
   }
 
-  // Setup speed control
-  const speedSlider = document.getElementById(
-    "speedSlider"
-  ) as HTMLInputElement;
-  const speedValue = document.getElementById("speedValue");
-  if (speedSlider && speedValue) {
-    speedSlider.addEventListener("input", () => {
-      const speed = parseFloat(speedSlider.value);
-      speedValue.textContent = `${speed.toFixed(1)}s`;
-      toneGenerator.setInterval(speed);
+  // Setup favorites and the gallery drawer; favorites are kept in the browser
+  const favoriteButton = document.getElementById("favoriteButton");
+  const galleryButton = document.getElementById("galleryButton");
+  const gallery = document.getElementById("gallery");
+  const galleryItems = document.getElementById("galleryItems");
+  const galleryEmpty = document.getElementById("galleryEmpty");
+  const galleryCloseButton = document.getElementById("galleryCloseButton");
+  let addFavorite = () => {};
+  if (
+    favoriteButton &&
+    galleryButton &&
+    gallery &&
+    galleryItems &&
+    galleryEmpty &&
+    galleryCloseButton
+  ) {
+    const favorites = openFavorites();
+
+    const galleryItem = (favorite: Favorite) => {
+      const { document: composition } = favorite;
+      const item = document.createElement("div");
+      item.className = "gallery-item";
+
+      const thumbnail = document.createElement("img");
+      thumbnail.src = favorite.thumbnail;
+      thumbnail.alt = `Composition ${composition.seed}`;
+      thumbnail.title = "Replay";
+      thumbnail.addEventListener("click", () =>
+        toneGenerator.replayDocument(composition)
+      );
+
+      const actions = document.createElement("div");
+      actions.className = "gallery-item-actions";
+      const seed = document.createElement("span");
+      seed.textContent = `${composition.seed}`;
+      const button = (label: string, title: string, onClick: () => void) => {
+        const element = document.createElement("button");
+        element.type = "button";
+        element.textContent = label;
+        element.title = title;
+        element.addEventListener("click", onClick);
+        return element;
+      };
+      actions.append(
+        seed,
+        button("SVG", "Download SVG", () =>
+          downloadFile(
+            `mondrian_${composition.seed}.svg`,
+            renderSvg(composition),
+            "image/svg+xml"
+          )
+        ),
+        button("JSON", "Download JSON", () =>
+          downloadFile(
+            `mondrian_${composition.seed}.json`,
+            serializeDocument(composition),
+            "application/json"
+          )
+        ),
+        button("×", "Remove", async () => {
+          await (await favorites).remove(favorite.id);
+          showGallery();
+        })
+      );
+
+      item.append(thumbnail, actions);
+      return item;
+    };
+
+    const showGallery = async () => {
+      try {
+        const list = await (await favorites).list();
+        galleryItems.replaceChildren(...list.map(galleryItem));
+        galleryEmpty.hidden = list.length > 0;
+      } catch (error) {
+        console.error("Failed to load favorites:", error);
+      }
+    };
+
+    addFavorite = async () => {
+      const composition = toneGenerator.currentDocument();
+      if (!composition) return;
+      try {
+        const store = await favorites;
+        await store.add({
+          id: Date.now(),
+          document: composition,
+          thumbnail: renderThumbnail(composition),
+        });
+        console.log(`Favorite saved: ${composition.seed}`);
+      } catch (error) {
+        console.error("Failed to save favorite:", error);
+        window.alert(`Could not save favorite: ${(error as Error).message}`);
+        return;
+      }
+      if (!gallery.hidden) showGallery();
+    };
+
+    favoriteButton.addEventListener("click", () => addFavorite());
+    galleryButton.addEventListener("click", () => {
+      gallery.hidden = !gallery.hidden;
+      if (!gallery.hidden) showGallery();
+    });
+    galleryCloseButton.addEventListener("click", () => {
+      gallery.hidden = true;
     });
   }
 
+  document.addEventListener("keydown", (event) => {
+    const target = event.target as HTMLElement;
+    if (target.closest("input, select, button, textarea")) return;
+    if (event.key === " ") {
+      event.preventDefault();
+      togglePause();
+    } else if (event.key === "ArrowLeft") {
+      toneGenerator.stepBack();
+    } else if (event.key === "ArrowRight") {
+      toneGenerator.stepForward();
+    } else if (event.key === "f") {
+      addFavorite();
+    }
+  });
+
   // Auto-hide controls after 3 seconds of mouse inactivity
   const controls = document.getElementById("controls");
   let hideTimeout: number | null = null;
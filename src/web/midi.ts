@@ -0,0 +1,90 @@
+import {
+  MIDI_CONTROLS,
+  MidiControlName,
+  Note,
+  frequencyToMidi,
+  noteVelocities,
+  parseMidiMessage,
+} from "../core";
+
+// --- Web MIDI (controllers in, notes out to external synths) ---
+
+export interface MidiHandlers {
+  noteOn(note: number, velocity: number): void;
+  noteOff(note: number): void;
+  /** A mapped knob or fader moved; `value` runs from 0 to 1. */
+  control(name: MidiControlName, value: number): void;
+}
+
+export interface MidiConnection {
+  /** Outputs currently connected, e.g. external synths. */
+  outputs(): MIDIOutput[];
+  /** Where to send notes; null to stop. */
+  setOutput(id: string | null): void;
+  /**
+   * Sends notes to the output, each at `startTime` (on the
+   * `performance.now` clock, in milliseconds) plus its own start.
+   */
+  sendNotes(notes: Note[], startTime: number): void;
+  /** Stops listening to inputs and sending to the output. */
+  close(): void;
+}
+
+/**
+ * Requests MIDI access and listens to every input, including ones plugged
+ * in later.
+ * @throws DOMException if MIDI is unsupported or access is denied.
+ */
+export async function connectMidi(
+  handlers: MidiHandlers,
+  onDevicesChange: () => void = () => {}
+): Promise<MidiConnection> {
+  const access = await navigator.requestMIDIAccess();
+  let output: MIDIOutput | null = null;
+
+  const onMessage = (event: MIDIMessageEvent) => {
+    const message = event.data && parseMidiMessage(event.data);
+    if (!message) return;
+    if (message.type === "noteon") {
+      handlers.noteOn(message.note, message.velocity);
+    } else if (message.type === "noteoff") {
+      handlers.noteOff(message.note);
+    } else if (message.controller in MIDI_CONTROLS) {
+      handlers.control(MIDI_CONTROLS[message.controller], message.value);
+    }
+  };
+  const listen = () => {
+    access.inputs.forEach((input) => {
+      input.onmidimessage = onMessage;
+    });
+  };
+  listen();
+  access.onstatechange = () => {
+    listen();
+    onDevicesChange();
+  };
+
+  return {
+    outputs: () => Array.from(access.outputs.values()),
+    setOutput(id) {
+      output = id ? access.outputs.get(id) ?? null : null;
+    },
+    sendNotes(notes, startTime) {
+      if (!output) return;
+      const velocities = noteVelocities(notes);
+      notes.forEach((note, i) => {
+        const pitch = frequencyToMidi(note.frequency);
+        const start = startTime + note.start * 1000;
+        output!.send([0x90, pitch, velocities[i]], start);
+        output!.send([0x80, pitch, 0], start + note.duration * 1000);
+      });
+    },
+    close() {
+      access.onstatechange = null;
+      access.inputs.forEach((input) => {
+        input.onmidimessage = null;
+      });
+      output = null;
+    },
+  };
+}
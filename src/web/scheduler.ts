@@ -0,0 +1,119 @@
+// --- Scheduler (look-ahead timing on the audio clock) ---
+
+// How often the scheduler wakes up, in milliseconds
+const TICK = 25;
+
+// How far ahead events are scheduled, in seconds. Hidden tabs throttle
+// timers to about once a second, so the scheduler looks further ahead there.
+const LOOK_AHEAD = 0.1;
+const HIDDEN_LOOK_AHEAD = 1.5;
+
+// Timers in a worker keep their pace in background tabs
+const TICKER_SOURCE = `
+let id = null;
+onmessage = (event) => {
+  clearInterval(id);
+  id = event.data ? setInterval(() => postMessage(null), event.data) : null;
+};
+`;
+
+export interface Scheduler {
+  /**
+   * Starts calling back every period, the first time at `time` (seconds on
+   * the audio clock); while running, moves the next call to `time`.
+   */
+  start(time: number): void;
+  stop(): void;
+  /**
+   * Changes the period without losing the phase: the next call comes one
+   * new period after the last.
+   */
+  setPeriod(seconds: number): void;
+  /** Stops for good and releases the ticker. */
+  close(): void;
+}
+
+interface Ticker {
+  setRunning(running: boolean): void;
+  close(): void;
+}
+
+/** Wakes `onTick` every `TICK` milliseconds, from a worker if possible. */
+function createTicker(onTick: () => void): Ticker {
+  try {
+    const url = URL.createObjectURL(
+      new Blob([TICKER_SOURCE], { type: "text/javascript" })
+    );
+    const worker = new Worker(url);
+    URL.revokeObjectURL(url);
+    worker.onmessage = onTick;
+    return {
+      setRunning: (running) => worker.postMessage(running ? TICK : 0),
+      close: () => worker.terminate(),
+    };
+  } catch {
+    let id: number | null = null;
+    const setRunning = (running: boolean) => {
+      if (id !== null) window.clearInterval(id);
+      id = running ? window.setInterval(onTick, TICK) : null;
+    };
+    return { setRunning, close: () => setRunning(false) };
+  }
+}
+
+/**
+ * Creates a scheduler that calls `onSchedule` with the audio clock time of
+ * each event (every `period` seconds), slightly ahead of it, so tones can
+ * be scheduled at that exact time and drawing can wait for it.
+ */
+export function createScheduler(
+  context: AudioContext,
+  period: number,
+  onSchedule: (time: number) => void
+): Scheduler {
+  let nextTime = 0;
+  let running = false;
+
+  const tick = () => {
+    const lookAhead = document.hidden ? HIDDEN_LOOK_AHEAD : LOOK_AHEAD;
+    // Events missed while the clock stalled are dropped, not caught up on
+    if (nextTime < context.currentTime) {
+      nextTime = context.currentTime;
+    }
+    while (running && nextTime < context.currentTime + lookAhead) {
+      onSchedule(nextTime);
+      nextTime += period;
+    }
+  };
+  const ticker = createTicker(tick);
+  // Look further ahead as soon as the tab is hidden
+  const onVisibilityChange = () => {
+    if (running) tick();
+  };
+  document.addEventListener("visibilitychange", onVisibilityChange);
+
+  return {
+    start(time) {
+      nextTime = time;
+      if (!running) {
+        running = true;
+        ticker.setRunning(true);
+      }
+      tick();
+    },
+    stop() {
+      running = false;
+      ticker.setRunning(false);
+    },
+    setPeriod(seconds) {
+      nextTime += seconds - period;
+      period = seconds;
+      if (running) tick();
+    },
+    close() {
+      running = false;
+      ticker.close();
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+    },
+  };
+}
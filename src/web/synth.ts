@@ -0,0 +1,160 @@
+import {
+  ADDITIVE_HARMONICS,
+  EffectsSettings,
+  FILTER_Q,
+  Note,
+  VoiceSettings,
+  detunedFrequencies,
+  envelopePoints,
+  reverbImpulse,
+} from "../core";
+
+// --- Web Audio Voice Engine (mirrors the offline synth in core/synth.ts) ---
+
+// Length of the reverb's impulse response, in seconds
+const REVERB_SECONDS = 3;
+
+const additiveWaves = new WeakMap<BaseAudioContext, PeriodicWave>();
+
+/**
+ * The "additive" waveform as a periodic wave, built once per context.
+ * Normalization is disabled so it matches the offline synth's level.
+ */
+function additiveWave(context: BaseAudioContext): PeriodicWave {
+  let wave = additiveWaves.get(context);
+  if (!wave) {
+    const total = ADDITIVE_HARMONICS.reduce((sum, a) => sum + a, 0);
+    const imag = new Float32Array([
+      0,
+      ...ADDITIVE_HARMONICS.map((a) => a / total),
+    ]);
+    wave = context.createPeriodicWave(new Float32Array(imag.length), imag, {
+      disableNormalization: true,
+    });
+    additiveWaves.set(context, wave);
+  }
+  return wave;
+}
+
+/**
+ * Schedules a note at `startTime` (on the context's clock): detuned
+ * oscillators through a low-pass filter, ADSR envelope and equal-power
+ * panner into `destination`.
+ */
+export function playNote(
+  context: BaseAudioContext,
+  destination: AudioNode,
+  note: Note,
+  voice: VoiceSettings,
+  startTime: number,
+  volume: number
+): void {
+  const endTime = startTime + note.duration;
+  const waveform = voice.waveform ?? note.waveform;
+
+  const filter = context.createBiquadFilter();
+  filter.type = "lowpass";
+  filter.frequency.value = voice.cutoff;
+  // The low-pass Q of Web Audio is in decibels
+  filter.Q.value = 20 * Math.log10(FILTER_Q);
+
+  const envelope = context.createGain();
+  const peak = volume * note.amplitude;
+  envelope.gain.setValueAtTime(0, startTime);
+  for (const [time, level] of envelopePoints(voice.envelope, note.duration)) {
+    envelope.gain.linearRampToValueAtTime(level * peak, startTime + time);
+  }
+
+  const panner = context.createStereoPanner();
+  panner.pan.value = note.pan;
+
+  filter.connect(envelope);
+  envelope.connect(panner);
+  panner.connect(destination);
+
+  const frequencies = detunedFrequencies(note.frequency, voice.detune);
+  for (const frequency of frequencies) {
+    const oscillator = context.createOscillator();
+    if (waveform === "additive") {
+      oscillator.setPeriodicWave(additiveWave(context));
+    } else {
+      oscillator.type = waveform;
+    }
+    oscillator.frequency.value = frequency;
+
+    const gain = context.createGain();
+    gain.gain.value = 1 / frequencies.length;
+    oscillator.connect(gain);
+    gain.connect(filter);
+
+    oscillator.start(startTime);
+    oscillator.stop(endTime);
+  }
+}
+
+export interface EffectsBus {
+  /** Where voices connect. */
+  input: AudioNode;
+  setEffects(effects: EffectsSettings): void;
+  /** Disconnects the bus from its destination. */
+  disconnect(): void;
+}
+
+/**
+ * Builds the master effects bus into `destination`, routed like the
+ * offline synth: a feedback delay mixed into the dry signal, then a reverb
+ * on the mono sum of both.
+ */
+export function createEffectsBus(
+  context: BaseAudioContext,
+  destination: AudioNode,
+  effects: EffectsSettings
+): EffectsBus {
+  const input = context.createGain();
+  const post = context.createGain();
+  input.connect(post);
+
+  const delay = context.createDelay(5);
+  const feedback = context.createGain();
+  const delayMix = context.createGain();
+  input.connect(delay);
+  delay.connect(feedback);
+  feedback.connect(delay);
+  delay.connect(delayMix);
+  delayMix.connect(post);
+
+  const impulse = reverbImpulse(context.sampleRate, REVERB_SECONDS);
+  const buffer = context.createBuffer(
+    2,
+    impulse.left.length,
+    context.sampleRate
+  );
+  buffer.getChannelData(0).set(impulse.left);
+  buffer.getChannelData(1).set(impulse.right);
+  const convolver = context.createConvolver();
+  convolver.normalize = false;
+  convolver.buffer = buffer;
+  convolver.channelCount = 1;
+  convolver.channelCountMode = "explicit";
+  const reverbMix = context.createGain();
+  post.connect(convolver);
+  convolver.connect(reverbMix);
+
+  post.connect(destination);
+  reverbMix.connect(destination);
+
+  const setEffects = (settings: EffectsSettings) => {
+    delay.delayTime.value = settings.delayTime;
+    feedback.gain.value = settings.delayFeedback;
+    delayMix.gain.value = settings.delay;
+    reverbMix.gain.value = settings.reverb;
+  };
+  setEffects(effects);
+
+  const disconnect = () => {
+    post.disconnect(destination);
+    reverbMix.disconnect(destination);
+  };
+
+  return { input, setEffects, disconnect };
+}
@@ -0,0 +1,183 @@
+import { strict as assert } from "assert";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { after, before, describe, it } from "node:test";
+import * as os from "os";
+import {
+  DEFAULT_SETTINGS,
+  compositionParams,
+  generateComposition,
+  parseDocument,
+  parseSeed,
+} from "../src/core";
+import { createRenderApi } from "../src/node/api";
+import { createWebServer } from "../src/node/server";
+
+// --- Render API: request validation, limits and caching ---
+
+let server: http.Server;
+let base: string;
+
+before(async () => {
+  server = createWebServer(
+    os.tmpdir(),
+    createRenderApi({ maxSize: 800, maxDuration: 2, cacheSize: 1024 * 1024 })
+  );
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+const get = (path: string, headers: Record<string, string> = {}) =>
+  fetch(`${base}${path}`, { headers, redirect: "manual" });
+
+const errorOf = async (path: string) => {
+  const response = await get(path);
+  assert.equal(response.status, 400, path);
+  assert.equal(response.headers.get("cache-control"), "no-store");
+  return ((await response.json()) as { error: string }).error;
+};
+
+describe("render API requests", () => {
+  it("redirects a query without a seed to a random seed", async () => {
+    const response = await get("/composition.svg?depth=3");
+    assert.equal(response.status, 302);
+    assert.match(
+      response.headers.get("location")!,
+      /^\/composition\.svg\?depth=3&seed=\d+$/
+    );
+  });
+
+  it("draws the same composition as the CLI for a query", async () => {
+    const response = await get(
+      "/composition.json?seed=sunrise&width=400&depth=3&rules=no-adjacent"
+    );
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get("content-type"), "application/json");
+    const { notes, version, ...composition } = parseDocument(
+      await response.text()
+    );
+    assert.deepEqual(
+      composition,
+      generateComposition(
+        compositionParams(parseSeed("sunrise"), 400, 225, {
+          ...DEFAULT_SETTINGS,
+          depth: { min: 3, max: 3 },
+          rules: ["no-adjacent"],
+        })
+      )
+    );
+  });
+
+  it("rejects unknown, repeated and invalid parameters", async () => {
+    assert.equal(
+      await errorOf("/composition.svg?seed=1&colour=red&size=4k"),
+      "Unknown parameter(s): colour, size."
+    );
+    assert.equal(
+      await errorOf("/composition.svg?seed=1&depth=3&depth=4"),
+      "depth is given more than once."
+    );
+    assert.equal(
+      await errorOf("/composition.svg?seed=1&depth=2.5"),
+      'depth must be a whole number from 1 to 10, got "2.5".'
+    );
+    assert.equal(
+      await errorOf("/composition.svg?seed=1&colorChance="),
+      'colorChance must be a number from 0 to 1, got "".'
+    );
+    assert.equal(
+      await errorOf("/composition.svg?seed=%20"),
+      "seed must be a number or text."
+    );
+    assert.equal(
+      await errorOf("/composition.svg?seed=1&lineColor=red"),
+      'lineColor must be a hex color like #1B1B1B, got "red".'
+    );
+    assert.equal(
+      await errorOf("/composition.svg?seed=1&palette=./secret.json"),
+      'palette must be one of classic, de-stijl-gray, pigments-1930s, grayscale, got "./secret.json".'
+    );
+    assert.match(
+      await errorOf("/composition.svg?seed=1&rules=tidy"),
+      /Unknown rule "tidy"/
+    );
+    // Sound parameters belong to tone.wav only
+    assert.equal(
+      await errorOf("/composition.svg?seed=1&voice=pad"),
+      "Unknown parameter(s): voice."
+    );
+    assert.match(
+      await errorOf("/tone.wav?seed=1&voices=5"),
+      /Invalid voices: 5/
+    );
+  });
+
+  it("limits image sizes and sound lengths", async () => {
+    assert.equal(
+      await errorOf("/composition.svg?seed=1&width=801"),
+      'width must be a whole number from 1 to 800, got "801".'
+    );
+    assert.equal(
+      await errorOf("/composition.svg?seed=1&height=0"),
+      'height must be a whole number from 1 to 800, got "0".'
+    );
+    assert.equal(
+      await errorOf("/tone.wav?seed=1&duration=3"),
+      'duration must be a number from 0.1 to 2, got "3".'
+    );
+
+    // A lone height keeps 16:9 up to the limit
+    const svg = await (await get("/composition.svg?seed=1&height=600")).text();
+    assert.match(svg, /viewBox="0 0 800 600"/);
+  });
+
+  it("renders the sound as WAV", async () => {
+    const response = await get("/tone.wav?seed=1&duration=0.5&reverb=0");
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get("content-type"), "audio/wav");
+    const wav = Buffer.from(await response.arrayBuffer());
+    assert.equal(wav.toString("latin1", 0, 4), "RIFF");
+  });
+});
+
+describe("render API caching", () => {
+  it("caches responses by their sorted query", async () => {
+    const first = await get("/composition.svg?seed=9&depth=4");
+    const second = await get("/composition.svg?depth=4&seed=9");
+    assert.equal(first.headers.get("x-cache"), "MISS");
+    assert.equal(second.headers.get("x-cache"), "HIT");
+    assert.equal(await first.text(), await second.text());
+    assert.equal(first.headers.get("etag"), second.headers.get("etag"));
+  });
+
+  it("answers a matching ETag with 304 and revalidates daily", async () => {
+    const response = await get("/composition.svg?seed=10");
+    const etag = response.headers.get("etag")!;
+    assert.equal(
+      response.headers.get("cache-control"),
+      "public, max-age=86400"
+    );
+    const again = await get("/composition.svg?seed=10", {
+      "If-None-Match": etag,
+    });
+    assert.equal(again.status, 304);
+    const other = await get("/composition.svg?seed=11", {
+      "If-None-Match": etag,
+    });
+    assert.equal(other.status, 200);
+  });
+});
+
+describe("web server", () => {
+  it("answers malformed paths with 400 and paths outside the root with 404", async () => {
+    assert.equal((await get("/%E0%A4%A")).status, 400);
+    assert.equal((await get("/..%2F..%2Fetc%2Fpasswd")).status, 404);
+    assert.equal(
+      (await fetch(`${base}/composition.svg?seed=1`, { method: "POST" }))
+        .status,
+      405
+    );
+  });
+});
@@ -0,0 +1,245 @@
+import { strict as assert } from "assert";
+import { Command } from "commander";
+import * as fs from "fs";
+import { after, before, describe, it } from "node:test";
+import * as os from "os";
+import * as path from "path";
+import {
+  Config,
+  applyConfig,
+  applyEnvironment,
+  environmentVariable,
+  loadConfig,
+  validateConfig,
+} from "../src/cli/config";
+import {
+  parseChoice,
+  parseFraction,
+  parseInteger,
+  parseNumber,
+} from "../src/cli/options";
+import { failure } from "./fail";
+
+// --- CLI option parsing, config files and environment variables ---
+
+describe("option parsing", () => {
+  it("reads numbers within their range", () => {
+    assert.equal(parseNumber(" 2.5 ", "--reverb", { min: 0, max: 3 }), 2.5);
+    assert.equal(parseInteger("7", "--depth", { min: 1, max: 10 }), 7);
+    assert.equal(parseFraction("0", "--color-chance"), 0);
+    assert.equal(parseChoice("svg", "--format", ["png", "svg"]), "svg");
+  });
+
+  it("names the option and its range when rejecting", async () => {
+    assert.equal(
+      await failure(() => parseInteger("11", "--depth", { min: 1, max: 10 })),
+      'Error: --depth must be a whole number from 1 to 10, got "11".'
+    );
+    assert.equal(
+      await failure(() => parseInteger("2.5", "--amount")),
+      'Error: --amount must be a whole number of at least 1, got "2.5".'
+    );
+    assert.equal(
+      await failure(() => parseNumber("0", "--interval", { above: 0 })),
+      'Error: --interval must be a number greater than 0, got "0".'
+    );
+    assert.equal(
+      await failure(() => parseFraction("1.5", "--color-chance")),
+      'Error: --color-chance must be a number from 0 to 1, got "1.5".'
+    );
+    assert.equal(
+      await failure(() => parseChoice("gif", "--format", ["png", "svg"])),
+      'Error: --format must be one of png, svg, got "gif".'
+    );
+    for (const value of ["", " ", "abc", "Infinity", "NaN"]) {
+      await failure(() => parseNumber(value, "--reverb"));
+    }
+  });
+});
+
+// A program shaped like the CLI: `output` is a directory for `image` but a
+// file for `audio render`
+const createProgram = () => {
+  const image = new Command("image")
+    .option("-o, --output <dir>", "", "./output")
+    .option("-d, --depth <number>")
+    .option("--line-weight <number>")
+    .option("--no-contact-sheet");
+  const render = new Command("render")
+    .option("-o, --output <file>", "", "./output/session.wav")
+    .option("--voice <name>", "", "pure")
+    .option("--mono");
+  const audio = new Command("audio").addCommand(render);
+  const program = new Command("mondrian")
+    .version("1.0.0")
+    .option("--config <file>")
+    .addCommand(image)
+    .addCommand(audio);
+  return { program, image, render };
+};
+
+describe("loadConfig", () => {
+  let dir: string;
+  const write = (name: string, text: string) => {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, text);
+    return file;
+  };
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "config-"));
+  });
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("reads JSON and YAML", () => {
+    const json = write("a.json", `{ "depth": 5, "audio": { "voice": "pad" } }`);
+    assert.deepEqual(loadConfig(json), {
+      path: json,
+      config: { depth: 5, audio: { voice: "pad" } },
+    });
+    const yaml = write("a.yaml", "depth: 5\naudio:\n  voice: pad\n");
+    assert.deepEqual(loadConfig(yaml)?.config, loadConfig(json)?.config);
+  });
+
+  it("rejects missing, malformed and non-object files", () => {
+    assert.throws(
+      () => loadConfig(path.join(dir, "missing.json")),
+      /Config file .* not found/
+    );
+    assert.throws(
+      () => loadConfig(write("bad.json", "{ depth: ")),
+      /Invalid config file/
+    );
+    assert.throws(
+      () => loadConfig(write("list.yaml", "- 1\n- 2\n")),
+      /expected an object/
+    );
+  });
+});
+
+describe("validateConfig", () => {
+  const validate = (config: Config) =>
+    validateConfig(createProgram().program, {
+      path: "mondrian.config.json",
+      config,
+    });
+
+  it("accepts options by either name, in command sections", () => {
+    validate({
+      depth: 5,
+      "line-weight": 30,
+      image: { lineWeight: 40, output: "renders" },
+      audio: { render: { output: "a.wav", mono: true } },
+    });
+  });
+
+  it("names unknown options", () => {
+    assert.throws(
+      () => validate({ dpeth: 5, image: { colour: "red" } }),
+      /Unknown option\(s\) in config file mondrian.config.json: dpeth, image.colour\./
+    );
+  });
+
+  it("keeps options meaning different things per command out of the top level", () => {
+    assert.throws(
+      () => validate({ output: "renders" }),
+      /"output" .* takes different values in different commands \(<dir>, <file>\)/
+    );
+  });
+});
+
+describe("applyConfig", () => {
+  it("fills in options from the top level, then the command's sections", () => {
+    const { image, render } = createProgram();
+    const config = {
+      depth: 5,
+      lineWeight: 30,
+      voice: "organ",
+      image: { "line-weight": [40, 50] },
+      audio: { render: { voice: "pad" } },
+    };
+    applyConfig(image, config);
+    assert.equal(image.opts().depth, "5");
+    assert.equal(image.opts().lineWeight, "40,50");
+    assert.equal(image.getOptionValueSource("depth"), "config");
+    applyConfig(render, config);
+    assert.equal(render.opts().voice, "pad");
+  });
+
+  it("leaves options given on the command line or in the environment", () => {
+    const { image } = createProgram();
+    image.setOptionValueWithSource("depth", "3", "cli");
+    image.setOptionValueWithSource("lineWeight", "45", "env");
+    applyConfig(image, { depth: 5, lineWeight: 30 });
+    assert.equal(image.opts().depth, "3");
+    assert.equal(image.opts().lineWeight, "45");
+  });
+
+  it("applies section-only options from sections alone", () => {
+    const { image, render } = createProgram();
+    const config = {
+      output: "renders",
+      audio: { render: { output: "a.wav" } },
+    };
+    applyConfig(image, config);
+    assert.equal(image.opts().output, "./output");
+    applyConfig(render, config);
+    assert.equal(render.opts().output, "a.wav");
+  });
+
+  it("parses flags as true or false", () => {
+    const { image, render } = createProgram();
+    applyConfig(render, { mono: "false" });
+    assert.equal(render.opts().mono, false);
+    const other = createProgram().render;
+    applyConfig(other, { mono: true });
+    assert.equal(other.opts().mono, true);
+    applyConfig(image, { contactSheet: "FALSE" });
+    assert.equal(image.opts().contactSheet, false);
+    assert.throws(
+      () => applyConfig(createProgram().render, { mono: "yes" }),
+      /"mono" in the config file must be true or false, got "yes"/
+    );
+  });
+});
+
+describe("applyEnvironment", () => {
+  it("names variables after the options", () => {
+    const { image } = createProgram();
+    const weight = image.options.find(
+      (option) => option.long === "--line-weight"
+    )!;
+    assert.equal(environmentVariable(weight), "MONDRIAN_LINE_WEIGHT");
+  });
+
+  it("fills in options not given on the command line", () => {
+    const { image } = createProgram();
+    image.setOptionValueWithSource("depth", "3", "cli");
+    applyEnvironment(image, {
+      MONDRIAN_DEPTH: "6",
+      MONDRIAN_LINE_WEIGHT: "35",
+      MONDRIAN_CONTACT_SHEET: "false",
+    });
+    assert.deepEqual(image.opts(), {
+      output: "./output",
+      depth: "3",
+      lineWeight: "35",
+      contactSheet: false,
+    });
+  });
+
+  it("parses flags as true or false", () => {
+    const { program, render } = createProgram();
+    applyEnvironment(render, { MONDRIAN_MONO: "true" });
+    assert.equal(render.opts().mono, true);
+    for (const value of ["1", "", "on"]) {
+      assert.throws(
+        () =>
+          applyEnvironment(createProgram().render, { MONDRIAN_MONO: value }),
+        /MONDRIAN_MONO must be true or false/
+      );
+    }
+    // --version only prints the version
+    applyEnvironment(program, { MONDRIAN_VERSION: "2" });
+  });
+});
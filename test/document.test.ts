@@ -0,0 +1,74 @@
+import { strict as assert } from "assert";
+import * as fs from "fs";
+import { describe, it } from "node:test";
+import * as path from "path";
+import {
+  DOCUMENT_VERSION,
+  LAYOUT_NAMES,
+  createDocument,
+  generateComposition,
+  parseDocument,
+  randomParams,
+  serializeDocument,
+  sonify,
+} from "../src/core";
+
+// --- Composition documents round-trip and stay readable ---
+
+const documentFor = (seed: number, layout: (typeof LAYOUT_NAMES)[number]) => {
+  const composition = generateComposition({
+    ...randomParams(seed, 1920, 1080),
+    layout,
+    rules: ["no-adjacent", "short-edges"],
+  });
+  return createDocument(composition, sonify(composition, "timbre"));
+};
+
+// One document per version of the format as it was written then, and for
+// older versions, what it migrates to in the current version
+const fixture = (name: string) =>
+  fs.readFileSync(path.join(__dirname, "fixtures", `${name}.json`), "utf8");
+
+const VERSION_1 = JSON.parse(fixture("document-v1"));
+
+describe("parseDocument", () => {
+  for (const layout of LAYOUT_NAMES) {
+    it(`round-trips a serialized document (${layout})`, () => {
+      const document = documentFor(42, layout);
+      assert.equal(document.version, DOCUMENT_VERSION);
+      const parsed = parseDocument(serializeDocument(document));
+      assert.deepEqual(parsed, document);
+      assert.deepEqual(parseDocument(serializeDocument(parsed)), parsed);
+    });
+  }
+
+  for (let version = 1; version <= DOCUMENT_VERSION; version++) {
+    it(`reads and migrates version ${version}`, () => {
+      const expected = JSON.parse(
+        fixture(
+          version === DOCUMENT_VERSION
+            ? `document-v${version}`
+            : `document-v${version}.migrated`
+        )
+      );
+      assert.equal(expected.version, DOCUMENT_VERSION);
+
+      const document = parseDocument(fixture(`document-v${version}`));
+      assert.deepEqual(document, expected);
+      assert.deepEqual(parseDocument(serializeDocument(document)), expected);
+    });
+  }
+
+  it("rejects versions that are not whole numbers from 1 up to the current", () => {
+    for (const version of [0, -3, 2.5, DOCUMENT_VERSION + 1, "2"]) {
+      assert.throws(
+        () => parseDocument(JSON.stringify({ ...VERSION_1, version })),
+        /Invalid composition document/
+      );
+    }
+  });
+
+  it("rejects malformed JSON", () => {
+    assert.throws(() => parseDocument("{"), /not valid JSON/);
+  });
+});
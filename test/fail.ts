@@ -0,0 +1,30 @@
+import { mock } from "node:test";
+
+// --- Catching the CLI's fail() in tests ---
+
+class Exit extends Error {}
+
+/**
+ * Runs `action`, expecting it to reject its input through the CLI's
+ * `fail()`, which prints an error and exits.
+ * @returns What `fail()` printed, instead of exiting.
+ * @throws Error if `action` accepted its input.
+ */
+export async function failure(action: () => unknown): Promise<string> {
+  const exit = mock.method(process, "exit", (code?: number) => {
+    throw new Exit(`exit ${code}`);
+  });
+  const error = mock.method(console, "error", () => undefined);
+  try {
+    await action();
+  } catch (thrown) {
+    if (thrown instanceof Exit) {
+      return String(error.mock.calls[0]?.arguments[0]);
+    }
+    throw thrown;
+  } finally {
+    exit.mock.restore();
+    error.mock.restore();
+  }
+  throw new Error("Expected the input to be rejected.");
+}
@@ -0,0 +1,146 @@
+import { strict as assert } from "assert";
+import * as fs from "fs";
+import { describe, it } from "node:test";
+import * as os from "os";
+import * as path from "path";
+import {
+  Palette,
+  createRandom,
+  getPalette,
+  isColor,
+  parsePalette,
+  pickColor,
+} from "../src/core";
+import { loadPalette } from "../src/node/palette";
+
+// --- Palette presets, files and weighted picks ---
+
+describe("parsePalette", () => {
+  it("reads plain and weighted colors, with defaults", () => {
+    assert.deepEqual(
+      parsePalette(
+        {
+          colors: ["#FF0000", { color: " rgb(0, 0, 255) ", weight: 2.5 }],
+        },
+        "mine"
+      ),
+      {
+        name: "mine",
+        colors: [
+          { color: "#FF0000", weight: 1 },
+          { color: "rgb(0, 0, 255)", weight: 2.5 },
+        ],
+        background: "#FFFFFF",
+        lineColor: "#000000",
+      }
+    );
+  });
+
+  it("keeps a given name, background and line color", () => {
+    const palette = parsePalette({
+      name: "night",
+      colors: [{ color: "crimson" }],
+      background: "#111",
+      lineColor: "rgba(255, 255, 255, 0.8)",
+    });
+    assert.equal(palette.name, "night");
+    assert.deepEqual(palette.colors, [{ color: "crimson", weight: 1 }]);
+    assert.equal(palette.background, "#111");
+    assert.equal(palette.lineColor, "rgba(255, 255, 255, 0.8)");
+  });
+
+  it("rejects missing or empty colors", () => {
+    for (const data of [null, "red", {}, { colors: [] }, { colors: "red" }]) {
+      assert.throws(() => parsePalette(data), /Invalid palette/);
+    }
+  });
+
+  it("rejects weights that are not positive numbers", () => {
+    for (const weight of [0, -1, "2", Infinity, NaN]) {
+      assert.throws(
+        () => parsePalette({ colors: [{ color: "red", weight }] }),
+        /"colors\[0\]\.weight" must be a positive number/
+      );
+    }
+  });
+
+  it("rejects anything but a CSS color", () => {
+    for (const color of ["", "#12", "#GGGGGG", "red;", 'red" x="']) {
+      assert.throws(
+        () => parsePalette({ colors: [color] }),
+        /"colors\[0\]" must be a CSS color/
+      );
+    }
+    assert.throws(
+      () => parsePalette({ colors: ["red"], background: "<none>" }),
+      /"background" must be a CSS color/
+    );
+  });
+});
+
+describe("isColor", () => {
+  it("accepts hex, rgb()/rgba() and names", () => {
+    for (const color of [
+      "#fff",
+      "#FFFF",
+      "#C8312B",
+      "#C8312B80",
+      "rgb(255, 0, 0)",
+      "rgba(255 0 0 / 50%)",
+      "rebeccapurple",
+    ]) {
+      assert.ok(isColor(color), color);
+    }
+  });
+});
+
+describe("pickColor", () => {
+  it("picks colors in proportion to their weights", () => {
+    const palette: Palette = {
+      ...getPalette("classic")!,
+      colors: [
+        { color: "red", weight: 3 },
+        { color: "blue", weight: 1 },
+      ],
+    };
+    const random = createRandom(1);
+    let red = 0;
+    for (let i = 0; i < 4000; i++) {
+      if (pickColor(palette, random) === "red") red++;
+    }
+    assert.ok(Math.abs(red / 4000 - 0.75) < 0.03, `red share ${red / 4000}`);
+  });
+});
+
+describe("getPalette", () => {
+  it("finds presets by name only", () => {
+    assert.equal(getPalette("grayscale")?.name, "grayscale");
+    assert.equal(getPalette("toString"), undefined);
+    assert.equal(getPalette("missing"), undefined);
+  });
+});
+
+describe("loadPalette", () => {
+  it("reads presets and palette files", async () => {
+    assert.equal(await loadPalette("classic"), getPalette("classic"));
+
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "palette-"));
+    try {
+      const file = path.join(dir, "sunset.json");
+      await fs.promises.writeFile(file, JSON.stringify({ colors: ["orange"] }));
+      assert.equal((await loadPalette(file)).name, "sunset");
+
+      await fs.promises.writeFile(file, "{");
+      await assert.rejects(loadPalette(file), /is not valid JSON/);
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("names the presets for an unknown palette", async () => {
+    await assert.rejects(
+      loadPalette("no-such-palette"),
+      /Unknown palette "no-such-palette". Use one of classic, /
+    );
+  });
+});
@@ -0,0 +1,84 @@
+import { strict as assert } from "assert";
+import * as fs from "fs";
+import { describe, it } from "node:test";
+import * as os from "os";
+import * as path from "path";
+import { compositionMetadata, randomParams } from "../src/core";
+import { readImageMetadata } from "../src/node/image";
+import { addPngMetadata, readPngMetadata } from "../src/node/png";
+
+// --- Metadata embedded in PNG files ---
+
+// A 1×1 PNG without text chunks
+const PNG = Buffer.from(
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==",
+  "base64"
+);
+
+const IEND = Buffer.from([0, 0, 0, 0, 0x49, 0x45, 0x4e, 0x44]);
+
+describe("addPngMetadata", () => {
+  it("adds one tEXt chunk per entry just before IEND", () => {
+    const png = addPngMetadata(PNG, { Seed: "42" });
+    const chunk = Buffer.concat([
+      Buffer.from([0, 0, 0, 7]),
+      Buffer.from("tEXtSeed\u000042", "latin1"),
+      Buffer.from([0x60, 0x10, 0x77, 0xa0]), // CRC-32 of type and data
+    ]);
+    const iend = PNG.lastIndexOf(IEND);
+    assert.deepEqual(
+      png,
+      Buffer.concat([PNG.subarray(0, iend), chunk, PNG.subarray(iend)])
+    );
+  });
+
+  it("writes text beyond Latin-1 as iTXt", () => {
+    const png = addPngMetadata(PNG, { Palette: "café", Title: "モンドリアン" });
+    assert.ok(png.includes(Buffer.from("tEXtPalette")));
+    assert.ok(png.includes(Buffer.from("iTXtTitle")));
+  });
+
+  it("rejects files that are not PNGs", () => {
+    assert.throws(() => addPngMetadata(Buffer.from("GIF89a"), {}), /Not a PNG/);
+    assert.throws(
+      () => addPngMetadata(PNG.subarray(0, PNG.lastIndexOf(IEND)), {}),
+      /no IEND chunk/
+    );
+  });
+});
+
+describe("readPngMetadata", () => {
+  it("reads back every entry, tEXt and iTXt", () => {
+    const metadata = {
+      ...compositionMetadata(randomParams(42, 1920, 1080)),
+      Palette: "café",
+      Title: "モンドリアン",
+      Note: "two\nlines",
+    };
+    assert.deepEqual(readPngMetadata(addPngMetadata(PNG, metadata)), metadata);
+  });
+
+  it("finds nothing in a plain PNG", () => {
+    assert.deepEqual(readPngMetadata(PNG), {});
+  });
+});
+
+describe("readImageMetadata", () => {
+  it("reads PNG files and finds no metadata in plain ones", async () => {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "png-"));
+    try {
+      const tagged = path.join(dir, "tagged.PNG");
+      const plain = path.join(dir, "plain.png");
+      await fs.promises.writeFile(tagged, addPngMetadata(PNG, { Seed: "7" }));
+      await fs.promises.writeFile(plain, PNG);
+      assert.deepEqual(await readImageMetadata(tagged), { Seed: "7" });
+      assert.equal(await readImageMetadata(plain), null);
+      await assert.rejects(
+        readImageMetadata(path.join(dir, "notes.txt")),
+        /is not a PNG or SVG file/
+      );
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,116 @@
+import { strict as assert } from "assert";
+import { describe, it } from "node:test";
+import {
+  DEFAULT_DPI,
+  paperResolution,
+  parseResolution,
+  relativeScale,
+} from "../src/core";
+import { parseOutputSize } from "../src/cli/options";
+
+// --- Output sizes: presets, pixel sizes and paper ---
+
+describe("parseResolution", () => {
+  it("reads presets, in any case", () => {
+    assert.deepEqual(parseResolution("4k"), {
+      width: 3840,
+      height: 2160,
+      dpi: undefined,
+    });
+    assert.deepEqual(parseResolution(" Instagram-Story "), {
+      width: 1080,
+      height: 1920,
+      dpi: undefined,
+    });
+  });
+
+  it("reads pixel sizes, keeping a given dpi", () => {
+    assert.deepEqual(parseResolution("1200x800", 150), {
+      width: 1200,
+      height: 800,
+      dpi: 150,
+    });
+  });
+
+  it("sizes paper at its own dpi, the given one or the default", () => {
+    assert.deepEqual(parseResolution("a4@300dpi"), {
+      width: 2480,
+      height: 3508,
+      dpi: 300,
+    });
+    assert.deepEqual(
+      parseResolution("a4@300dpi", 72),
+      parseResolution("a4@300dpi")
+    );
+    assert.deepEqual(parseResolution("a4", 150), paperResolution("a4", 150));
+    assert.deepEqual(
+      parseResolution("letter"),
+      paperResolution("letter", DEFAULT_DPI)
+    );
+  });
+
+  it("turns paper sideways with -landscape", () => {
+    assert.deepEqual(parseResolution("a3-landscape@100dpi"), {
+      width: 1654,
+      height: 1169,
+      dpi: 100,
+    });
+  });
+
+  it("rejects anything else", () => {
+    for (const value of [
+      "",
+      "5k",
+      "0x100",
+      "100x",
+      "-100x100",
+      "1.5x2",
+      "a4@0dpi",
+      "a4@dpi",
+      "b5",
+      "toString",
+    ]) {
+      assert.throws(() => parseResolution(value), /Invalid resolution/, value);
+    }
+  });
+});
+
+describe("relativeScale", () => {
+  it("scales by the short side against 4K", () => {
+    assert.equal(relativeScale(3840, 2160), 1);
+    assert.equal(relativeScale(1920, 1080), 0.5);
+    assert.equal(relativeScale(1080, 1920), 0.5);
+  });
+});
+
+describe("parseOutputSize", () => {
+  const base = { width: 1920, height: 1080 };
+
+  it("falls back to the base size", () => {
+    assert.deepEqual(parseOutputSize({}, base), { ...base, dpi: undefined });
+    assert.deepEqual(parseOutputSize({ dpi: "300" }, base), {
+      ...base,
+      dpi: 300,
+    });
+  });
+
+  it("keeps the aspect ratio for a lone width or height", () => {
+    assert.deepEqual(parseOutputSize({ width: "960" }, base), {
+      width: 960,
+      height: 540,
+      dpi: undefined,
+    });
+    assert.deepEqual(parseOutputSize({ size: "square", height: "500" }, base), {
+      width: 500,
+      height: 500,
+      dpi: undefined,
+    });
+  });
+
+  it("sizes paper at --dpi", () => {
+    assert.deepEqual(
+      parseOutputSize({ size: "a5", dpi: "100" }, base),
+      paperResolution("a5", 100)
+    );
+  });
+});
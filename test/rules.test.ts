@@ -0,0 +1,120 @@
+import { strict as assert } from "assert";
+import { describe, it } from "node:test";
+import {
+  Block,
+  LAYOUT_NAMES,
+  ColoringState,
+  DEFAULT_PALETTE,
+  MAX_COLORED_AREA,
+  RULES,
+  RuleName,
+  generateComposition,
+  randomParams,
+  visibleArea,
+  visibleCanvasArea,
+} from "../src/core";
+
+// --- Composition rules hold on every composition ---
+
+const SEEDS = Array.from({ length: 40 }, (_, i) => i);
+
+const generate = (seed: number, layout: string, rules: RuleName[]) =>
+  generateComposition({
+    ...randomParams(seed, 1920, 1080),
+    // Plenty of color, so the rules have something to prevent
+    colorChance: 0.8,
+    layout: layout as (typeof LAYOUT_NAMES)[number],
+    rules,
+  });
+
+// Sharing an edge of positive length
+const adjacent = (a: Block, b: Block) => {
+  const overlapX =
+    Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x) > 0;
+  const overlapY =
+    Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y) > 0;
+  const touchX = a.x + a.width === b.x || b.x + b.width === a.x;
+  const touchY = a.y + a.height === b.y || b.y + b.height === a.y;
+  return (touchX && overlapY) || (touchY && overlapX);
+};
+
+describe("no-adjacent", () => {
+  for (const layout of LAYOUT_NAMES) {
+    it(`never colors neighbours alike (${layout})`, () => {
+      for (const seed of SEEDS) {
+        const { blocks, background } = generate(seed, layout, ["no-adjacent"]);
+        blocks.forEach((block, i) => {
+          if (block.color === background) return;
+          for (const other of blocks.slice(i + 1)) {
+            assert.ok(
+              other.color !== block.color || !adjacent(block, other),
+              `seed ${seed}: two adjacent ${block.color} blocks`
+            );
+          }
+        });
+      }
+    });
+  }
+});
+
+describe("max-area", () => {
+  for (const layout of LAYOUT_NAMES) {
+    it(`caps the visible colored area, even with all-colors (${layout})`, () => {
+      for (const seed of SEEDS) {
+        const composition = generate(seed, layout, ["max-area", "all-colors"]);
+        const { shape, width, height, background } = composition;
+        const colored = composition.blocks
+          .filter((block) => block.color !== background)
+          .reduce(
+            (sum, block) => sum + visibleArea(block, shape, width, height),
+            0
+          );
+        assert.ok(
+          colored <=
+            MAX_COLORED_AREA * visibleCanvasArea(shape, width, height) + 1e-6,
+          `seed ${seed}: colored area over the cap`
+        );
+      }
+    });
+  }
+});
+
+describe("prefer-small", () => {
+  // A 400×200 canvas of four equal blocks: its lozenge is a diamond in the
+  // middle 200×200, half of it in each of the two middle blocks
+  const state = (shape: "rectangle" | "lozenge"): ColoringState => ({
+    rules: [],
+    blocks: [0, 100, 200, 300].map((x) => ({
+      x,
+      y: 0,
+      width: 100,
+      height: 200,
+      color: "#FFFFFF",
+    })),
+    neighbors: [[1], [0, 2], [1, 3], [2]],
+    coloredArea: 0,
+    context: {
+      width: 400,
+      height: 200,
+      shape,
+      palette: DEFAULT_PALETTE,
+      random: () => 0,
+      maxColoredArea: MAX_COLORED_AREA,
+    },
+  });
+  const chance = (shape: "rectangle" | "lozenge", index: number) => {
+    const current = state(shape);
+    return RULES["prefer-small"].colorChance!(
+      current.blocks[index],
+      0.3,
+      current
+    );
+  };
+
+  it("weighs the chance by the shown size against the mean", () => {
+    assert.equal(chance("rectangle", 0), 0.3);
+    // The middle blocks show twice the mean visible area, the outer ones none
+    assert.ok(Math.abs(chance("lozenge", 1) - 0.3 / Math.SQRT2) < 1e-9);
+    assert.equal(chance("lozenge", 0), 0.6);
+  });
+});
@@ -0,0 +1,60 @@
+import { strict as assert } from "assert";
+import { describe, it } from "node:test";
+import {
+  Harmony,
+  SONIFICATION_NAMES,
+  degreeFrequency,
+  generateComposition,
+  nearestDegree,
+  randomParams,
+  sonify,
+} from "../src/core";
+
+// --- Sonification strategies turn compositions into playable notes ---
+
+const HARMONIES: Harmony[] = [
+  { key: "A", scale: "major", voices: 3 },
+  { key: "D#", scale: "minor", voices: 4 },
+  { key: "F", scale: "just", voices: 2 },
+];
+
+const onScale = (harmony: Harmony, frequency: number) =>
+  Math.abs(
+    degreeFrequency(harmony, nearestDegree(harmony, frequency)) - frequency
+  ) < 1e-6;
+
+describe("sonify", () => {
+  for (const name of SONIFICATION_NAMES) {
+    it(`gives notes on the scale within the duration (${name})`, () => {
+      for (let seed = 0; seed < 20; seed++) {
+        const composition = generateComposition(randomParams(seed, 1920, 1080));
+        for (const harmony of HARMONIES) {
+          const notes = sonify(composition, name, { duration: 4, harmony });
+          assert.ok(notes.length > 0);
+          const amplitude = notes.reduce(
+            (sum, note) => sum + note.amplitude,
+            0
+          );
+          assert.ok(Math.abs(amplitude - 1) < 1e-9);
+          for (const note of notes) {
+            assert.ok(onScale(harmony, note.frequency));
+            assert.ok(note.start >= 0 && note.duration > 0);
+            assert.ok(note.start + note.duration <= 4 + 1e-9);
+            assert.ok(note.pan >= -1 && note.pan <= 1);
+          }
+        }
+      }
+    });
+  }
+
+  it("defaults to the timbre mapping in A major", () => {
+    const composition = generateComposition(randomParams(7, 1920, 1080));
+    assert.deepEqual(
+      sonify(composition),
+      sonify(composition, "timbre", {
+        duration: 5,
+        harmony: { key: "A", scale: "major", voices: 3 },
+      })
+    );
+  });
+});
@@ -0,0 +1,99 @@
+import { strict as assert } from "assert";
+import { createHash } from "crypto";
+import { describe, it } from "node:test";
+import {
+  DEFAULT_EFFECTS,
+  DEFAULT_VOICE,
+  Note,
+  composeSession,
+  encodeMidiFile,
+  renderSession,
+} from "../src/core";
+import { encodeWav } from "../src/node/sound";
+
+// --- Sound output (sessions, WAV and MIDI files) is byte-for-byte stable ---
+
+const SEED = 42;
+const COUNT = 3;
+const DURATION = 2;
+const SAMPLE_RATE = 22050;
+
+const sha256 = (bytes: Uint8Array) =>
+  createHash("sha256").update(bytes).digest("hex");
+
+const sessionNotes = (): Note[][] =>
+  composeSession(SEED, {
+    count: COUNT,
+    width: 3840,
+    height: 2160,
+    duration: DURATION,
+  }).map((entry) => entry.notes);
+
+const renderWav = (segments: Note[][], channels = 2) =>
+  encodeWav(
+    renderSession(segments, {
+      sampleRate: SAMPLE_RATE,
+      duration: DURATION,
+      crossfade: 0.5,
+      voice: DEFAULT_VOICE,
+      effects: DEFAULT_EFFECTS,
+    }),
+    { sampleRate: SAMPLE_RATE, channels }
+  );
+
+describe("renderSession and encodeWav", () => {
+  it("give the same bytes for the same seed", async () => {
+    const first = await renderWav(sessionNotes());
+    const second = await renderWav(sessionNotes());
+    assert.ok(first.equals(second));
+  });
+
+  it("match the recorded WAV file", async () => {
+    assert.equal(
+      sha256(await renderWav(sessionNotes())),
+      "d98b54a2414b31e9006e865b78ae41130f24f918482799a1ed882e7fa1073b49"
+    );
+  });
+
+  it("write a 16-bit PCM header with the real data length", async () => {
+    const file = await renderWav(sessionNotes(), 1);
+    const samples = COUNT * DURATION * SAMPLE_RATE;
+    assert.equal(file.toString("ascii", 0, 4), "RIFF");
+    assert.equal(file.toString("ascii", 8, 12), "WAVE");
+    assert.equal(file.readUInt16LE(22), 1); // Channels
+    assert.equal(file.readUInt32LE(24), SAMPLE_RATE);
+    assert.equal(file.readUInt16LE(34), 16); // Bits per sample
+    assert.equal(file.readUInt32LE(40), samples * 2);
+    assert.equal(file.length, 44 + samples * 2);
+  });
+});
+
+describe("encodeMidiFile", () => {
+  it("matches the recorded MIDI file", () => {
+    const file = encodeMidiFile(sessionNotes(), {
+      duration: DURATION,
+      name: `Mondrian ${SEED}`,
+    });
+    assert.equal(Buffer.from(file.subarray(0, 4)).toString("ascii"), "MThd");
+    assert.equal(
+      sha256(file),
+      "cf4db3916f4664897afc69c13b49fbffb74a9121cab547d41d5e51eeffdd8a67"
+    );
+  });
+
+  it("puts each composition in its own slot", () => {
+    const note: Note = {
+      frequency: 440,
+      start: 0,
+      duration: 1,
+      amplitude: 0.5,
+      pan: 0,
+      waveform: "sine",
+    };
+    const one = encodeMidiFile([[note]], { duration: DURATION });
+    const two = encodeMidiFile([[note], [note]], { duration: DURATION });
+    // The second slot adds a note on and a note off
+    assert.ok(two.length > one.length);
+    assert.deepEqual(encodeMidiFile([[note]], { duration: DURATION }), one);
+  });
+});
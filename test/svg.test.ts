@@ -0,0 +1,114 @@
+import { strict as assert } from "assert";
+import { describe, it } from "node:test";
+import {
+  Composition,
+  DEFAULT_PALETTE,
+  generateComposition,
+  randomParams,
+  readSvgMetadata,
+  renderSvg,
+} from "../src/core";
+
+// --- SVG export ---
+
+// Two blocks side by side, split by one line, with one red accent
+const COMPOSITION: Composition = {
+  width: 300,
+  height: 200,
+  seed: 1,
+  shape: "rectangle",
+  blocks: [
+    { x: 0, y: 0, width: 100, height: 200, color: "#FF0000" },
+    { x: 100, y: 0, width: 200, height: 200, color: "#FFFFFF" },
+  ],
+  lines: [
+    { x1: 100, y1: 0, x2: 100, y2: 200, depth: 0, weight: 10 },
+    { x1: 100, y1: 50, x2: 300, y2: 50, depth: 1, weight: 6 },
+  ],
+  accents: [{ x: 95, y: 20, width: 10, height: 10, color: "#0000FF" }],
+  lineWeight: 10,
+  lineColor: "#000000",
+  background: "#FFFFFF",
+  palette: DEFAULT_PALETTE,
+  layout: "bisection",
+  rules: [],
+};
+
+const count = (svg: string, pattern: RegExp) =>
+  (svg.match(new RegExp(pattern, "g")) ?? []).length;
+
+describe("renderSvg", () => {
+  it("draws the background, colored blocks, lines and accents in order", () => {
+    const svg = renderSvg(COMPOSITION);
+    assert.equal(
+      svg,
+      [
+        `<?xml version="1.0" encoding="UTF-8"?>`,
+        `<svg xmlns="http://www.w3.org/2000/svg" width="300" height="200" viewBox="0 0 300 200">`,
+        `  <rect width="300" height="200" fill="#FFFFFF"/>`,
+        `  <g>`,
+        `    <rect x="0" y="0" width="100" height="200" fill="#FF0000"/>`,
+        `  </g>`,
+        `  <g stroke="#000000" stroke-width="10" stroke-linecap="butt">`,
+        `    <line x1="100" y1="0" x2="100" y2="200"/>`,
+        `    <line x1="100" y1="50" x2="300" y2="50" stroke-width="6"/>`,
+        `  </g>`,
+        `  <g>`,
+        `    <rect x="95" y="20" width="10" height="10" fill="#0000FF"/>`,
+        `  </g>`,
+        `</svg>`,
+        ``,
+      ].join("\n")
+    );
+  });
+
+  it("has one rect per colored block and one line per grid line", () => {
+    const composition = generateComposition(randomParams(42, 1920, 1080));
+    const svg = renderSvg(composition);
+    const colored = composition.blocks.filter(
+      (block) => block.color !== composition.background
+    );
+    assert.equal(
+      count(svg, /<rect x=/),
+      colored.length + composition.accents.length
+    );
+    assert.equal(count(svg, /<line /), composition.lines.length);
+  });
+
+  it("sizes the document in millimeters with a dpi", () => {
+    const svg = renderSvg(
+      { ...COMPOSITION, width: 3000, height: 1500 },
+      {
+        dpi: 300,
+      }
+    );
+    assert.match(svg, / width="254mm" height="127mm" viewBox="0 0 3000 1500"/);
+  });
+
+  it("clips lozenge compositions to the square diamond", () => {
+    const svg = renderSvg({ ...COMPOSITION, shape: "lozenge" });
+    assert.match(
+      svg,
+      /<clipPath id="lozenge"><polygon points="150,0 250,100 150,200 50,100"\/><\/clipPath>/
+    );
+    assert.match(svg, /<g clip-path="url\(#lozenge\)">/);
+  });
+
+  it("escapes colors in attributes", () => {
+    const svg = renderSvg({
+      ...COMPOSITION,
+      background: 'white" onload="x',
+      lineColor: "<black>",
+    });
+    assert.match(svg, /fill="white&quot; onload=&quot;x"/);
+    assert.match(svg, /stroke="&lt;black&gt;"/);
+    assert.doesNotMatch(svg, /onload="/);
+  });
+
+  it("embeds metadata that reads back", () => {
+    const metadata = { Seed: "1", Palette: "a<b>&c" };
+    const svg = renderSvg(COMPOSITION, { metadata });
+    assert.deepEqual(readSvgMetadata(svg), metadata);
+    assert.equal(readSvgMetadata(renderSvg(COMPOSITION)), null);
+  });
+});
@@ -0,0 +1,177 @@
+import { strict as assert } from "assert";
+import { describe, it } from "node:test";
+import {
+  CompositionOptions,
+  expandSweep,
+  parseCompositionOptions,
+} from "../src/cli/composition-options";
+import {
+  DEFAULT_PARAM_RANGES,
+  DEFAULT_SETTINGS,
+  compositionParams,
+  generateComposition,
+  randomParams,
+} from "../src/core";
+import { failure } from "./fail";
+
+// --- Parameter ranges and sweeps ---
+
+const OPTIONS: CompositionOptions = {
+  palette: "classic",
+  layout: "bisection",
+  sonification: "timbre",
+};
+
+describe("parseCompositionOptions", () => {
+  it("defaults to the default ranges", async () => {
+    const settings = await parseCompositionOptions(OPTIONS);
+    assert.deepEqual(settings.depth, DEFAULT_PARAM_RANGES.depth);
+    assert.deepEqual(settings.colorChance, DEFAULT_PARAM_RANGES.colorChance);
+    assert.deepEqual(settings.lineWeight, DEFAULT_PARAM_RANGES.lineWeight);
+    assert.deepEqual(settings.sweep, {});
+  });
+
+  it("reads fixed values and ranges", async () => {
+    const settings = await parseCompositionOptions({
+      ...OPTIONS,
+      depth: "5",
+      colorChance: " 0.1 .. 0.5 ",
+      lineWeight: "30..30",
+    });
+    assert.deepEqual(settings.depth, { min: 5, max: 5 });
+    assert.deepEqual(settings.colorChance, { min: 0.1, max: 0.5 });
+    assert.deepEqual(settings.lineWeight, { min: 30, max: 30 });
+  });
+
+  it("reads lists to sweep in batch only, without repeats", async () => {
+    const settings = await parseCompositionOptions(
+      { ...OPTIONS, depth: "3,5,3", lineWeight: "30, 60" },
+      true
+    );
+    assert.deepEqual(settings.sweep, { depth: [3, 5], lineWeight: [30, 60] });
+    assert.equal(
+      await failure(() =>
+        parseCompositionOptions({ ...OPTIONS, depth: "3,5" })
+      ),
+      'Error: --depth takes a list of values only in batch, got "3,5".'
+    );
+  });
+
+  it("rejects reversed, malformed and out-of-range values", async () => {
+    assert.equal(
+      await failure(() =>
+        parseCompositionOptions({ ...OPTIONS, depth: "7..3" })
+      ),
+      'Error: --depth range must go from low to high, got "7..3".'
+    );
+    assert.equal(
+      await failure(() =>
+        parseCompositionOptions({ ...OPTIONS, depth: "1..2..3" })
+      ),
+      'Error: --depth must be a value or a range like 3..7, got "1..2..3".'
+    );
+    assert.equal(
+      await failure(() =>
+        parseCompositionOptions({ ...OPTIONS, depth: "0..4" })
+      ),
+      'Error: --depth must be a whole number from 1 to 10, got "0".'
+    );
+    assert.equal(
+      await failure(() =>
+        parseCompositionOptions({ ...OPTIONS, colorChance: "0.5,2" }, true)
+      ),
+      'Error: --color-chance must be a number from 0 to 1, got "2".'
+    );
+    assert.equal(
+      await failure(() =>
+        parseCompositionOptions({ ...OPTIONS, lineColor: "red;" })
+      ),
+      'Error: --line-color must be a CSS color: hex (#1B1B1B), rgb(27, 27, 27) or a color name, got "red;".'
+    );
+    assert.match(
+      await failure(() =>
+        parseCompositionOptions({ ...OPTIONS, rules: "no-adjacent,tidy" })
+      ),
+      /Unknown rule "tidy"/
+    );
+  });
+});
+
+describe("expandSweep", () => {
+  it("gives one setting per combination, the last parameter fastest", async () => {
+    const settings = await parseCompositionOptions(
+      {
+        ...OPTIONS,
+        depth: "3,5",
+        colorChance: "0.2..0.3",
+        lineWeight: "30,45,60",
+      },
+      true
+    );
+    const grid = expandSweep(settings);
+    assert.deepEqual(
+      grid.map(({ depth, lineWeight }) => [depth.min, lineWeight.min]),
+      [
+        [3, 30],
+        [3, 45],
+        [3, 60],
+        [5, 30],
+        [5, 45],
+        [5, 60],
+      ]
+    );
+    for (const point of grid) {
+      assert.equal(point.depth.min, point.depth.max);
+      assert.deepEqual(point.colorChance, { min: 0.2, max: 0.3 });
+    }
+  });
+
+  it("leaves settings without a sweep as they are", () => {
+    assert.deepEqual(expandSweep({ ...DEFAULT_SETTINGS, sweep: {} }), [
+      { ...DEFAULT_SETTINGS, sweep: {} },
+    ]);
+  });
+});
+
+describe("compositionParams", () => {
+  it("draws each parameter within its range", () => {
+    for (let seed = 0; seed < 100; seed++) {
+      const params = compositionParams(seed, 3840, 2160, DEFAULT_SETTINGS);
+      assert.ok(params.maxDepth >= 4 && params.maxDepth <= 6);
+      assert.ok(Number.isInteger(params.maxDepth));
+      assert.ok(params.colorChance >= 0.2 && params.colorChance <= 0.4);
+      assert.ok(params.lineWeight >= 25 && params.lineWeight <= 60);
+    }
+  });
+
+  it("draws what the web app, audio and video draw without options", async () => {
+    const { sweep, ...settings } = await parseCompositionOptions(OPTIONS);
+    assert.deepEqual(sweep, {});
+    for (let seed = 0; seed < 20; seed++) {
+      assert.deepEqual(
+        generateComposition(compositionParams(seed, 1920, 1080, settings)),
+        generateComposition(randomParams(seed, 1920, 1080))
+      );
+    }
+  });
+
+  it("keeps the other parameters' draws when one is fixed", () => {
+    for (let seed = 0; seed < 20; seed++) {
+      const drawn = compositionParams(seed, 3840, 2160, DEFAULT_SETTINGS);
+      const fixed = compositionParams(seed, 3840, 2160, {
+        ...DEFAULT_SETTINGS,
+        depth: { min: 9, max: 9 },
+      });
+      assert.equal(fixed.maxDepth, 9);
+      assert.equal(fixed.colorChance, drawn.colorChance);
+      assert.equal(fixed.lineWeight, drawn.lineWeight);
+    }
+  });
+
+  it("scales line weights from 4K to the canvas", () => {
+    const settings = { ...DEFAULT_SETTINGS, lineWeight: { min: 40, max: 40 } };
+    assert.equal(compositionParams(1, 3840, 2160, settings).lineWeight, 40);
+    assert.equal(compositionParams(1, 1920, 1080, settings).lineWeight, 20);
+    assert.equal(compositionParams(1, 40, 40, settings).lineWeight, 1);
+  });
+});
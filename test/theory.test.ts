@@ -0,0 +1,136 @@
+import { strict as assert } from "assert";
+import { describe, it } from "node:test";
+import {
+  Harmony,
+  SCALES,
+  SCALE_NAMES,
+  buildChord,
+  degreeFrequency,
+  generateTones,
+  nearestDegree,
+  parseVoices,
+  snapToScale,
+  tonicFrequency,
+  voiceLead,
+} from "../src/core";
+
+// --- Keys, scales, chords and voice leading ---
+
+const A_MAJOR: Harmony = { key: "A", scale: "major", voices: 3 };
+
+const semitones = (a: number, b: number) => 12 * Math.log2(a / b);
+
+const assertClose = (actual: number, expected: number) =>
+  assert.ok(
+    Math.abs(actual - expected) < 1e-6,
+    `expected ${expected}, got ${actual}`
+  );
+
+// Whether `pitch` is a chord tone of `chord`, in any octave
+const inChord = (pitch: number, chord: number[]) =>
+  chord.some((tone) => {
+    const octaves = Math.log2(pitch / tone);
+    return Math.abs(octaves - Math.round(octaves)) < 1e-9;
+  });
+
+describe("scales", () => {
+  it("puts the tonic of every key between C3 and B3", () => {
+    assertClose(tonicFrequency("A"), 220);
+    assertClose(tonicFrequency("C"), 220 * Math.pow(2, -9 / 12));
+    assertClose(tonicFrequency("B"), 220 * Math.pow(2, 2 / 12));
+  });
+
+  it("continues degrees into the octaves above and below", () => {
+    const steps = SCALES.major.ratios.length;
+    assertClose(degreeFrequency(A_MAJOR, 0), 220);
+    assertClose(degreeFrequency(A_MAJOR, steps), 440);
+    assertClose(degreeFrequency(A_MAJOR, -steps), 110);
+    assertClose(
+      degreeFrequency(A_MAJOR, -1),
+      110 * SCALES.major.ratios[steps - 1]
+    );
+  });
+
+  it("keeps the pentatonic scale free of semitones", () => {
+    const { ratios } = SCALES.pentatonic;
+    for (let i = 1; i < ratios.length; i++) {
+      assert.ok(semitones(ratios[i], ratios[i - 1]) >= 2 - 1e-9);
+    }
+  });
+
+  it("snaps frequencies to the nearest pitch of the scale", () => {
+    for (const scale of SCALE_NAMES) {
+      const harmony: Harmony = { ...A_MAJOR, scale };
+      for (let degree = -8; degree <= 16; degree++) {
+        const pitch = degreeFrequency(harmony, degree);
+        assert.equal(nearestDegree(harmony, pitch), degree);
+        // A little off the pitch still snaps back to it
+        assertClose(snapToScale(harmony, pitch * 1.01), pitch);
+      }
+    }
+    // Between A (220) and B (246.94), closer to B
+    assertClose(snapToScale(A_MAJOR, 240), 220 * Math.pow(2, 2 / 12));
+  });
+});
+
+describe("chords", () => {
+  it("stacks thirds on the root in major and minor", () => {
+    const chord = buildChord(A_MAJOR, 0);
+    assert.deepEqual(
+      chord.map((pitch) => Math.round(semitones(pitch, 220))),
+      [0, 4, 7]
+    );
+    const minor = buildChord({ ...A_MAJOR, scale: "minor", voices: 4 }, 0);
+    assert.deepEqual(
+      minor.map((pitch) => Math.round(semitones(pitch, 220))),
+      [0, 3, 7, 10]
+    );
+  });
+
+  it("accepts 2 to 4 voices", () => {
+    assert.equal(parseVoices(2), 2);
+    assert.equal(parseVoices(4), 4);
+    for (const voices of [1, 5, 2.5, NaN]) {
+      assert.throws(() => parseVoices(voices), /Invalid voices/);
+    }
+  });
+});
+
+describe("voiceLead", () => {
+  it("leaves the first chord in close position", () => {
+    const chord = buildChord(A_MAJOR, 3);
+    assert.deepEqual(voiceLead(A_MAJOR, chord, []), chord);
+  });
+
+  it("keeps common tones and only moves notes by octaves", () => {
+    const previous = buildChord(A_MAJOR, 0); // A C# E
+    const chord = buildChord(A_MAJOR, 3); // D F# A
+    const voiced = voiceLead(A_MAJOR, chord, previous);
+
+    assert.equal(voiced.length, chord.length);
+    voiced.forEach((pitch, voice) => assert.ok(inChord(pitch, [chord[voice]])));
+    // The A stays where it was
+    assert.ok(voiced.some((pitch) => Math.abs(pitch - 220) < 1e-6));
+    // Within two octaves of the tonic
+    assert.ok(voiced.every((pitch) => pitch >= 220 - 1e-6 && pitch <= 880));
+  });
+
+  it("moves the voices less than the close-position chord would", () => {
+    // Semitones each voice is from the nearest voice of the other chord
+    const nearest = (pitch: number, others: number[]) =>
+      Math.min(...others.map((other) => Math.abs(semitones(pitch, other))));
+    const moved = (from: number[], to: number[]) =>
+      to.reduce((sum, pitch) => sum + nearest(pitch, from), 0) +
+      from.reduce((sum, pitch) => sum + nearest(pitch, to), 0);
+    let previous: number[] = [];
+    for (let seed = 0; seed < 50; seed++) {
+      const tones = generateTones(seed, A_MAJOR, previous);
+      if (previous.length > 0) {
+        const closed = generateTones(seed, A_MAJOR);
+        // Up to the preference for compact voicings
+        assert.ok(moved(previous, tones) <= moved(previous, closed) + 0.25);
+      }
+      previous = tones;
+    }
+  });
+});